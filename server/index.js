@@ -21,13 +21,31 @@ const __dirname = path.dirname(__filename);
 const uploadsRoot = path.join(__dirname, "uploads");
 const templatesDir = path.join(uploadsRoot, "templates");
 const brandDir = path.join(uploadsRoot, "brands");
+const overlayDir = path.join(uploadsRoot, "overlays");
+const productImageDir = path.join(uploadsRoot, "products");
+const fontDir = path.join(uploadsRoot, "fonts");
 const dataDir = path.join(__dirname, "data");
 const templateMetaPath = path.join(dataDir, "templates.json");
+const sessionsDir = path.join(dataDir, "sessions");
+const projectsPath = path.join(dataDir, "projects.json");
+const brandLogosPath = path.join(dataDir, "brand-logos.json");
+const brandsPath = path.join(dataDir, "brands.json");
+const productImagesPath = path.join(dataDir, "product-images.json");
+const fontsPath = path.join(dataDir, "fonts.json");
+const popLayoutsPath = path.join(dataDir, "pop-layouts.json");
+const popLayoutSeedPath = path.join(__dirname, "seeds", "pop-layouts.json");
+const overlayImagesPath = path.join(dataDir, "overlay-images.json");
 
 const ensureStorage = async () => {
   await fs.mkdir(templatesDir, { recursive: true });
   await fs.mkdir(brandDir, { recursive: true });
+  await fs.mkdir(overlayDir, { recursive: true });
+  await fs.mkdir(productImageDir, { recursive: true });
+  await fs.mkdir(fontDir, { recursive: true });
   await fs.mkdir(dataDir, { recursive: true });
+  await fs.mkdir(sessionsDir, { recursive: true });
+
+  await seedPopLayouts();
 
   try {
     await fs.access(templateMetaPath);
@@ -38,6 +56,8 @@ const ensureStorage = async () => {
     }
     throw error;
   }
+
+  await migrateTemplateKinds();
 };
 
 const readTemplates = async () => {
@@ -55,6 +75,144 @@ const writeTemplates = async (templates) => {
   await fs.writeFile(templateMetaPath, JSON.stringify(templates, null, 2), "utf8");
 };
 
+// Templates uploaded before kinds existed were told apart by "full" in their name or description
+const migrateTemplateKinds = async () => {
+  const templates = await readTemplates();
+  let changed = false;
+  for (const template of templates) {
+    if (template.kind) continue;
+    const marker = `${template.name || ""} ${template.description || ""}`.toLowerCase();
+    template.kind = marker.includes("full") ? "theme" : "product";
+    changed = true;
+  }
+  if (changed) {
+    await writeTemplates(templates);
+  }
+};
+
+const readBrandLogos = async () => {
+  try {
+    const raw = await fs.readFile(brandLogosPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeBrandLogos = async (logos) => {
+  await fs.writeFile(brandLogosPath, JSON.stringify(logos, null, 2), "utf8");
+};
+
+const readBrands = async () => {
+  try {
+    const raw = await fs.readFile(brandsPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeBrands = async (brands) => {
+  await fs.writeFile(brandsPath, JSON.stringify(brands, null, 2), "utf8");
+};
+
+const readProductImages = async () => {
+  try {
+    const raw = await fs.readFile(productImagesPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeProductImages = async (images) => {
+  await fs.writeFile(productImagesPath, JSON.stringify(images, null, 2), "utf8");
+};
+
+const normalizeImageSku = (value) => String(value || "").trim().toUpperCase();
+
+// Image URL per upper-case SKU, attached to product lookups
+const readProductImageIndex = async () => {
+  const images = await readProductImages();
+  return new Map(images.map((image) => [normalizeImageSku(image.sku), image.url]));
+};
+
+const readFonts = async () => {
+  try {
+    const raw = await fs.readFile(fontsPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeFonts = async (fonts) => {
+  await fs.writeFile(fontsPath, JSON.stringify(fonts, null, 2), "utf8");
+};
+
+const readPopLayouts = async () => {
+  try {
+    const raw = await fs.readFile(popLayoutsPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writePopLayouts = async (layouts) => {
+  await fs.writeFile(popLayoutsPath, JSON.stringify(layouts, null, 2), "utf8");
+};
+
+// The bundled presets are copied once; after that the registry belongs to the admins
+const seedPopLayouts = async () => {
+  try {
+    await fs.access(popLayoutsPath);
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+    await fs.copyFile(popLayoutSeedPath, popLayoutsPath);
+  }
+};
+
+const readOverlayImages = async () => {
+  try {
+    const raw = await fs.readFile(overlayImagesPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeOverlayImages = async (images) => {
+  await fs.writeFile(overlayImagesPath, JSON.stringify(images, null, 2), "utf8");
+};
+
+const readProjects = async () => {
+  try {
+    const raw = await fs.readFile(projectsPath, "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeProjects = async (projects) => {
+  await fs.writeFile(projectsPath, JSON.stringify(projects, null, 2), "utf8");
+};
+
 const parseDataUrl = (dataUrl) => {
   const match = /^data:(.+);base64,(.+)$/.exec(String(dataUrl || ""));
   if (!match) return null;
@@ -162,6 +320,43 @@ const requireAuth = (req, res, next) => {
   }
 };
 
+const isAdminUser = async (userId) => {
+  const [rows] = await authPool.query(
+    "SELECT username, status FROM users WHERE id = ? LIMIT 1",
+    [userId]
+  );
+  const user = rows?.[0];
+  return Boolean(user && user.status && user.username === "admin");
+};
+
+// For public routes that adapt to the caller; a missing or invalid token is treated as anonymous
+const readOptionalAuth = (req) => {
+  const header = String(req.headers.authorization || "");
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  if (!token || !process.env.JWT_SECRET) return null;
+  try {
+    return jwt.verify(token, process.env.JWT_SECRET);
+  } catch {
+    return null;
+  }
+};
+
+const isAdminRequest = async (req) => {
+  const auth = readOptionalAuth(req);
+  return auth?.user_id ? isAdminUser(auth.user_id) : false;
+};
+
+// Assets without siteCodes (or with an empty list) are shared by every site
+const isAvailableForSite = (item, siteCode) =>
+  !Array.isArray(item.siteCodes) ||
+  item.siteCodes.length === 0 ||
+  item.siteCodes.includes(String(siteCode ?? ""));
+
+const sanitizeSiteCodes = (raw) => {
+  if (!Array.isArray(raw)) return [];
+  return [...new Set(raw.map((code) => String(code ?? "").trim()).filter(Boolean))];
+};
+
 const requireAdmin = async (req, res, next) => {
   try {
     const userId = req.auth?.user_id;
@@ -170,12 +365,7 @@ const requireAdmin = async (req, res, next) => {
       return;
     }
 
-    const [rows] = await authPool.query(
-      "SELECT username, status FROM users WHERE id = ? LIMIT 1",
-      [userId]
-    );
-    const user = rows?.[0];
-    if (!user || !user.status || user.username !== "admin") {
+    if (!(await isAdminUser(userId))) {
       res.status(403).json({ error: "Akses ditolak" });
       return;
     }
@@ -187,7 +377,7 @@ const requireAdmin = async (req, res, next) => {
   }
 };
 
-const buildProductResponse = (row) => {
+const buildProductResponse = (row, productImages) => {
   const basePrice = toNumber(row.base_price);
   const finalPrice = toNumber(row.final_price);
   const baseDiscount = toNumber(row.disc1 ?? row.disc_1);
@@ -235,28 +425,368 @@ const buildProductResponse = (row) => {
     basePricePerMeter: row.base_price_per_meter ?? undefined,
     finalPricePerMeter: adjustedFinalPricePerMeter || undefined,
     consignment: row.co ?? undefined,
+    productImageUrl: productImages?.get(normalizeImageSku(sku)),
   };
 };
 
+const productSelectColumns = `
+                    p.pd_code AS code,
+                    p.pd_short_desc AS name,
+                    ROUND(p.base_price) AS base_price,
+                    ROUND(p.final_price) AS final_price,
+                    p.disc_1 AS disc1,
+                    p.disc_2 AS disc2,
+                    p.disc_3 AS disc3,
+                    p.disc_4 AS disc4,
+                    round(ifnull(p.base_price,0) / p.size) as base_price_per_meter,
+                    round(ifnull(p.final_price,0) / p.size) as final_price_per_meter,
+                    p.pd_uom as uom,
+                    p.size as size,
+                    CASE
+                        WHEN p.pd_short_desc LIKE '%SPECTRUM TBA%' THEN 'sci'
+                        WHEN pd.segment1 = 'CAT' AND pd.segment2 = 'SPECTRUM' THEN 'SPECTRUM_CAT'
+                        ELSE pd.segment2
+                    END AS brand,
+                    pd.segment4,
+                    pd.barcode1,
+                    pd.consignment as co`;
+
+const productLookupSql = `
+    SELECT ${productSelectColumns}
+                    FROM rpt_price_tag_v2 p inner join product pd on p.pd_code = pd.pd_code
+                    WHERE TRIM(p.pd_code) = TRIM(?)
+    ORDER BY p.effdate DESC
+    LIMIT 1;
+`;
+
+// Latest price row per SKU for a list of SKUs, in one round trip
+const productBatchSql = `
+    SELECT ${productSelectColumns}
+                    FROM rpt_price_tag_v2 p
+                    inner join product pd on p.pd_code = pd.pd_code
+                    inner join (
+                      SELECT TRIM(pd_code) AS pd_code, MAX(effdate) AS effdate
+                      FROM rpt_price_tag_v2
+                      WHERE TRIM(pd_code) IN (?)
+                      GROUP BY TRIM(pd_code)
+                    ) latest on TRIM(p.pd_code) = latest.pd_code AND p.effdate = latest.effdate
+                    WHERE TRIM(p.pd_code) IN (?);
+`;
+
 app.get("/api/health", (_req, res) => {
   res.json({ ok: true });
 });
 
-app.get("/api/templates", async (_req, res) => {
+const TEMPLATE_KINDS = ["product", "theme", "sticker"];
+const BRAND_DISPLAYS = ["logo", "text", "none"];
+const POP_LAYOUT_ID_PATTERN = /^[a-z0-9-]{1,40}$/;
+const FONT_FAMILY_PATTERN = /^[A-Za-z0-9 ]{1,40}$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const THEME_COLOR_KEYS = ["brandColor", "priceColor", "strikeColor", "badgeTextColor", "heroFill"];
+const THEME_GRADIENT_KEYS = ["discountBadge", "memberBadge"];
+const MAX_TEMPLATE_CATEGORY = 60;
+const MAX_TEMPLATE_TAGS = 20;
+const MAX_TEMPLATE_TAG = 40;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const sanitizeTemplateTags = (raw) => {
+  const list = Array.isArray(raw) ? raw : String(raw || "").split(",");
+  const seen = new Set();
+  const tags = [];
+  for (const item of list) {
+    const tag = String(item || "").trim().slice(0, MAX_TEMPLATE_TAG);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+  }
+  return tags.slice(0, MAX_TEMPLATE_TAGS);
+};
+
+// Returns undefined to clear the date, null when the value is not a YYYY-MM-DD date
+const sanitizeTemplateDate = (raw) => {
+  if (raw === null || raw === "") return undefined;
+  const value = String(raw).trim();
+  return DATE_ONLY_PATTERN.test(value) ? value : null;
+};
+
+const DEFAULT_POP_LAYOUT_ID = "standard";
+const POP_GRIDS = ["1", "2", "4"];
+const POP_TEXT_ROLES = ["brand", "name", "description", "price", "strike", "badgeLabel", "badgeValue", "hero", "banner"];
+const POP_FONT_WEIGHTS = ["normal", "bold", "400", "500", "600", "700", "800", "900"];
+const MAX_POP_LAYOUT_BLOCKS = 20;
+const MAX_POP_LAYOUT_TEXT = 200;
+
+const isNumberIn = (value, min, max) => typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const isShortText = (value, max = MAX_POP_LAYOUT_TEXT) =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= max;
+
+const isGridValue = (value, min, max) =>
+  value !== null &&
+  typeof value === "object" &&
+  Object.keys(value).length === POP_GRIDS.length &&
+  POP_GRIDS.every((grid) => isNumberIn(value[grid], min, max));
+
+// Optional numeric keys of a block: [key, min, max]
+const POP_BLOCK_NUMBERS = {
+  image: [["height", 0.05, 1]],
+  brand: [],
+  name: [["maxLines", 1, 6], ["discountedMaxLines", 1, 6], ["undiscountedScale", 0.3, 4]],
+  description: [],
+  divider: [],
+  price: [["scale", 0.3, 4], ["undiscountedScale", 0.3, 4]],
+  discount: [],
+  banner: [],
+  barcode: [],
+};
+
+// Mirrors the PopBlock union on the client; returns an error message or null
+const validatePopBlock = (block, index) => {
+  const where = `Blok ${index + 1}`;
+  if (!block || typeof block !== "object" || !Object.hasOwn(POP_BLOCK_NUMBERS, block.type)) {
+    return `${where}: jenis blok tidak dikenal`;
+  }
+  if (block.column !== undefined && !["left", "right"].includes(block.column)) {
+    return `${where}: kolom harus left atau right`;
+  }
+  for (const [key, min, max] of POP_BLOCK_NUMBERS[block.type]) {
+    if (block[key] !== undefined && !isNumberIn(block[key], min, max)) {
+      return `${where}: ${key} harus angka ${min}-${max}`;
+    }
+  }
+  if (block.type === "name" && block.maxLines === undefined) return `${where}: maxLines wajib diisi`;
+  if (block.type === "price" && block.scale === undefined) return `${where}: scale wajib diisi`;
+  if (block.type === "discount") {
+    if (!["badges", "hero"].includes(block.style)) return `${where}: style harus badges atau hero`;
+    if (block.fill !== undefined && !HEX_COLOR_PATTERN.test(String(block.fill))) return `${where}: warna tidak valid`;
+  }
+  if (block.type === "banner") {
+    if (!isShortText(block.text, 60)) return `${where}: teks banner wajib diisi (maks. 60)`;
+    if (block.subtext !== undefined && !isShortText(block.subtext, 80)) return `${where}: subteks maks. 80 karakter`;
+    if (!HEX_COLOR_PATTERN.test(String(block.fill || ""))) return `${where}: warna banner tidak valid`;
+  }
+  return null;
+};
+
+const validatePopTypography = (typography) => {
+  if (typography === null || typeof typography !== "object" || Array.isArray(typography)) {
+    return "Tipografi tidak valid";
+  }
+  for (const [role, style] of Object.entries(typography)) {
+    if (!POP_TEXT_ROLES.includes(role) || !style || typeof style !== "object") {
+      return `Tipografi ${role} tidak dikenal`;
+    }
+    if (style.size !== undefined && !isGridValue(style.size, 4, 400)) return `Ukuran ${role} tidak valid`;
+    if (style.weight !== undefined && !POP_FONT_WEIGHTS.includes(String(style.weight))) return `Ketebalan ${role} tidak valid`;
+    if (style.color !== undefined && !HEX_COLOR_PATTERN.test(String(style.color))) return `Warna ${role} tidak valid`;
+    if (style.fontFamily !== undefined && !isShortText(style.fontFamily, 80)) return `Font ${role} tidak valid`;
+  }
+  return null;
+};
+
+/** Validates a layout description against the block schema the renderer understands. */
+const parsePopLayout = (raw) => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "Layout POP tidak valid" };
+  if (!POP_LAYOUT_ID_PATTERN.test(String(raw.id || ""))) {
+    return { error: "ID layout hanya boleh huruf kecil, angka dan tanda minus (maks. 40)" };
+  }
+  if (!isShortText(raw.label, 60)) return { error: "Nama layout wajib diisi (maks. 60)" };
+  if (raw.description !== undefined && typeof raw.description !== "string") return { error: "Deskripsi tidak valid" };
+  if (raw.top !== undefined && !isNumberIn(raw.top, 0, 0.9)) return { error: "top harus angka 0-0.9" };
+  if (raw.width !== undefined && !isGridValue(raw.width, 0.2, 1)) return { error: "width harus berisi 1, 2 dan 4 (0.2-1)" };
+  if (raw.scale !== undefined && !isGridValue(raw.scale, 0.3, 3)) return { error: "scale harus berisi 1, 2 dan 4 (0.3-3)" };
+  if (raw.columnSplit !== undefined && !isNumberIn(raw.columnSplit, 0.2, 0.8)) {
+    return { error: "columnSplit harus angka 0.2-0.8" };
+  }
+  if (raw.typography !== undefined) {
+    const typographyError = validatePopTypography(raw.typography);
+    if (typographyError) return { error: typographyError };
+  }
+  if (!Array.isArray(raw.blocks) || raw.blocks.length === 0 || raw.blocks.length > MAX_POP_LAYOUT_BLOCKS) {
+    return { error: `Layout harus berisi 1-${MAX_POP_LAYOUT_BLOCKS} blok` };
+  }
+  for (const [index, block] of raw.blocks.entries()) {
+    const blockError = validatePopBlock(block, index);
+    if (blockError) return { error: blockError };
+  }
+
+  const layout = {
+    id: raw.id,
+    label: raw.label.trim(),
+    description: String(raw.description || "").trim().slice(0, MAX_POP_LAYOUT_TEXT),
+    blocks: raw.blocks,
+  };
+  for (const key of ["top", "width", "scale", "columnSplit", "typography"]) {
+    if (raw[key] !== undefined) layout[key] = raw[key];
+  }
+  return { layout };
+};
+
+const hasPopLayout = async (id) => (await readPopLayouts()).some((layout) => layout.id === id);
+
+// Returns undefined to clear the theme, null when any value is malformed
+const sanitizeTemplateTheme = (raw) => {
+  if (raw === null || raw === "") return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) return null;
+  const theme = {};
+  if (raw.fontFamily) {
+    const family = String(raw.fontFamily).trim();
+    if (!FONT_FAMILY_PATTERN.test(family)) return null;
+    theme.fontFamily = family;
+  }
+  for (const key of THEME_COLOR_KEYS) {
+    if (!raw[key]) continue;
+    if (!HEX_COLOR_PATTERN.test(String(raw[key]))) return null;
+    theme[key] = String(raw[key]).toLowerCase();
+  }
+  for (const key of THEME_GRADIENT_KEYS) {
+    if (!raw[key]) continue;
+    const stops = raw[key];
+    if (!Array.isArray(stops) || stops.length !== 2 || !stops.every((stop) => HEX_COLOR_PATTERN.test(String(stop)))) {
+      return null;
+    }
+    theme[key] = stops.map((stop) => String(stop).toLowerCase());
+  }
+  return Object.keys(theme).length > 0 ? theme : undefined;
+};
+
+/**
+ * Validates the optional template metadata shared by upload and edit.
+ * Only keys present in the body are returned, so PATCH leaves the rest untouched.
+ */
+const parseTemplateMeta = (body) => {
+  const meta = {};
+  if (body.description !== undefined) {
+    meta.description = String(body.description || "").trim() || "Custom template";
+  }
+  if (body.category !== undefined) {
+    meta.category = String(body.category || "").trim().slice(0, MAX_TEMPLATE_CATEGORY);
+  }
+  if (body.tags !== undefined) {
+    meta.tags = sanitizeTemplateTags(body.tags);
+  }
+  if (body.kind !== undefined) {
+    if (!TEMPLATE_KINDS.includes(body.kind)) {
+      return { error: "Jenis template tidak valid" };
+    }
+    meta.kind = body.kind;
+  }
+  if (body.brandDisplay !== undefined) {
+    if (!BRAND_DISPLAYS.includes(body.brandDisplay)) {
+      return { error: "Tampilan brand tidak valid" };
+    }
+    meta.brandDisplay = body.brandDisplay;
+  }
+  if (body.popLayout !== undefined) {
+    if (!POP_LAYOUT_ID_PATTERN.test(String(body.popLayout))) {
+      return { error: "Layout POP tidak valid" };
+    }
+    meta.popLayout = body.popLayout;
+  }
+  if (body.theme !== undefined) {
+    const theme = sanitizeTemplateTheme(body.theme);
+    if (theme === null) {
+      return { error: "Tema template tidak valid" };
+    }
+    meta.theme = theme;
+  }
+  if (body.archived !== undefined) {
+    meta.archived = body.archived === true;
+  }
+  if (body.siteCodes !== undefined) {
+    meta.siteCodes = sanitizeSiteCodes(body.siteCodes);
+  }
+  for (const key of ["activeFrom", "activeUntil"]) {
+    if (body[key] === undefined) continue;
+    const value = sanitizeTemplateDate(body[key]);
+    if (value === null) {
+      return { error: "Format tanggal tidak valid" };
+    }
+    meta[key] = value;
+  }
+  return { meta };
+};
+
+const todayDateString = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+// Seasonal window, inclusive on both ends, in the server's local date
+const isTemplateActive = (template, today) =>
+  (!template.activeFrom || template.activeFrom <= today) &&
+  (!template.activeUntil || template.activeUntil >= today);
+
+const matchesTemplateSearch = (template, query) => {
+  if (!query) return true;
+  const haystack = [template.name, template.description, template.category, ...(template.tags || [])]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return query.split(/\s+/).every((word) => haystack.includes(word));
+};
+
+const readTemplateViewer = async (req) => {
+  const auth = readOptionalAuth(req);
+  return {
+    isAdmin: auth?.user_id ? await isAdminUser(auth.user_id) : false,
+    siteCode: auth?.site_code,
+  };
+};
+
+// Store users only get live templates for their site; admins also see expired, scheduled and other sites' ones
+const isTemplateVisibleTo = (template, viewer, today) =>
+  viewer.isAdmin || (isTemplateActive(template, today) && isAvailableForSite(template, viewer.siteCode));
+
+const readVisibleTemplates = async (req) => {
+  const viewer = await readTemplateViewer(req);
+  const includeArchived = viewer.isAdmin && req.query.includeArchived === "1";
+  const today = todayDateString();
+  const templates = await readTemplates();
+  return templates.filter(
+    (item) => (!item.archived || includeArchived) && isTemplateVisibleTo(item, viewer, today)
+  );
+};
+
+app.get("/api/templates", async (req, res) => {
+  const query = String(req.query.q || "").trim().toLowerCase();
+  const category = String(req.query.category || "").trim().toLowerCase();
   try {
-    const templates = await readTemplates();
-    res.json(templates);
+    const templates = await readVisibleTemplates(req);
+    // Archived templates stay resolvable by id so saved selections keep working
+    res.json(
+      templates.filter(
+        (item) =>
+          (!category || String(item.category || "").toLowerCase() === category) &&
+          matchesTemplateSearch(item, query)
+      )
+    );
   } catch (error) {
     console.error("Failed to read templates:", error);
     res.status(500).json({ error: "Gagal memuat template" });
   }
 });
 
+app.get("/api/template-categories", async (req, res) => {
+  try {
+    const templates = await readVisibleTemplates(req);
+    const categories = [...new Set(templates.map((item) => item.category).filter(Boolean))];
+    res.json(categories.sort((a, b) => a.localeCompare(b, "id")));
+  } catch (error) {
+    console.error("Failed to read template categories:", error);
+    res.status(500).json({ error: "Gagal memuat kategori template" });
+  }
+});
+
 app.get("/api/templates/:id", async (req, res) => {
   try {
-    const templates = await readTemplates();
+    const [templates, viewer] = await Promise.all([readTemplates(), readTemplateViewer(req)]);
     const template = templates.find((item) => item.id === req.params.id);
-    if (!template) {
+    // Archived templates still resolve here; schedule and site apply as in the list
+    if (!template || !isTemplateVisibleTo(template, viewer, todayDateString())) {
       res.status(404).json({ error: "Template tidak ditemukan" });
       return;
     }
@@ -364,7 +894,6 @@ app.post("/api/login", loginLimiter, async (req, res) => {
 
 app.post("/api/templates", requireAuth, requireAdmin, async (req, res) => {
   const name = String(req.body?.name || "").trim();
-  const descriptionRaw = String(req.body?.description || "").trim();
   const imageData = req.body?.imageData;
 
   if (!name || !imageData) {
@@ -372,6 +901,16 @@ app.post("/api/templates", requireAuth, requireAdmin, async (req, res) => {
     return;
   }
 
+  const { meta, error: metaError } = parseTemplateMeta({ ...req.body, archived: undefined });
+  if (metaError) {
+    res.status(400).json({ error: metaError });
+    return;
+  }
+  if (meta.activeFrom && meta.activeUntil && meta.activeFrom > meta.activeUntil) {
+    res.status(400).json({ error: "Tanggal mulai harus sebelum tanggal berakhir" });
+    return;
+  }
+
   const parsed = parseDataUrl(imageData);
   if (!parsed) {
     res.status(400).json({ error: "Format gambar tidak valid" });
@@ -381,14 +920,19 @@ app.post("/api/templates", requireAuth, requireAdmin, async (req, res) => {
   const id = `tpl-${crypto.randomUUID()}`;
   const ext = extensionForMime(parsed.mime);
   const filename = `${id}.${ext}`;
-  const description = descriptionRaw || "Custom template";
 
   try {
+    if (meta.popLayout && !(await hasPopLayout(meta.popLayout))) {
+      res.status(400).json({ error: "Layout POP tidak ditemukan" });
+      return;
+    }
     await fs.writeFile(path.join(templatesDir, filename), parsed.buffer);
     const template = {
       id,
       name,
-      description,
+      description: "Custom template",
+      kind: "product",
+      ...meta,
       imageUrl: `/uploads/templates/${filename}`,
       uploadedAt: Date.now(),
       type: "custom",
@@ -403,57 +947,631 @@ app.post("/api/templates", requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
-app.delete("/api/templates/:id", requireAuth, requireAdmin, async (req, res) => {
-  const id = req.params.id;
+const TEMPLATE_ZONE_KEYS = ["brand", "name", "description", "strikePrice", "price", "discount", "barcode", "image"];
+
+// Zones are fractions of the template image; anything outside 0-1 is rejected
+const sanitizeTemplateZones = (raw) => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const zones = {};
+  for (const [key, zone] of Object.entries(raw)) {
+    if (!TEMPLATE_ZONE_KEYS.includes(key)) return null;
+    const x = Number(zone?.x);
+    const y = Number(zone?.y);
+    const width = Number(zone?.width);
+    const height = Number(zone?.height);
+    const values = [x, y, width, height];
+    if (values.some((value) => !Number.isFinite(value) || value < 0 || value > 1)) return null;
+    if (width <= 0 || height <= 0 || x + width > 1.0001 || y + height > 1.0001) return null;
+    zones[key] = { x, y, width, height };
+  }
+  return zones;
+};
+
+app.put("/api/templates/:id/zones", requireAuth, requireAdmin, async (req, res) => {
+  const zones = sanitizeTemplateZones(req.body?.zones);
+  if (!zones) {
+    res.status(400).json({ error: "Data zona tidak valid" });
+    return;
+  }
+
   try {
     const templates = await readTemplates();
-    const index = templates.findIndex((item) => item.id === id);
+    const index = templates.findIndex((item) => item.id === req.params.id);
     if (index === -1) {
       res.status(404).json({ error: "Template tidak ditemukan" });
       return;
     }
 
-    const [removed] = templates.splice(index, 1);
-    if (removed?.imageUrl) {
-      const filePath = path.join(__dirname, removed.imageUrl.replace("/uploads/", "uploads/"));
-      await fs.unlink(filePath).catch(() => null);
-    }
+    templates[index] = { ...templates[index], zones };
     await writeTemplates(templates);
-    res.json({ ok: true });
+    res.json(templates[index]);
   } catch (error) {
-    console.error("Failed to delete template:", error);
-    res.status(500).json({ error: "Gagal menghapus template" });
+    console.error("Failed to save template zones:", error);
+    res.status(500).json({ error: "Gagal menyimpan zona template" });
   }
 });
 
-app.post("/api/brand-logos", requireAuth, requireAdmin, async (req, res) => {
-  const imageData = req.body?.imageData;
-  if (!imageData) {
-    res.status(400).json({ error: "Logo wajib diunggah" });
-    return;
+app.patch("/api/templates/:id", requireAuth, requireAdmin, async (req, res) => {
+  const body = req.body || {};
+  const updates = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name || "").trim();
+    if (!name) {
+      res.status(400).json({ error: "Nama template wajib diisi" });
+      return;
+    }
+    updates.name = name;
   }
 
-  const parsed = parseDataUrl(imageData);
-  if (!parsed) {
-    res.status(400).json({ error: "Format gambar tidak valid" });
+  const { meta, error: metaError } = parseTemplateMeta(body);
+  if (metaError) {
+    res.status(400).json({ error: metaError });
     return;
   }
+  Object.assign(updates, meta);
 
-  const id = `brand-${crypto.randomUUID()}`;
-  const ext = extensionForMime(parsed.mime);
-  const filename = `${id}.${ext}`;
-
-  try {
-    await fs.writeFile(path.join(brandDir, filename), parsed.buffer);
-    res.json({ url: `/uploads/brands/${filename}` });
-  } catch (error) {
-    console.error("Failed to save brand logo:", error);
-    res.status(500).json({ error: "Gagal menyimpan logo" });
+  let parsed = null;
+  if (body.imageData !== undefined) {
+    parsed = parseDataUrl(body.imageData);
+    if (!parsed) {
+      res.status(400).json({ error: "Format gambar tidak valid" });
+      return;
+    }
   }
-});
 
-app.get("/api/products/:sku", requireAuth, async (req, res) => {
-  const sku = String(req.params.sku || "").trim();
+  try {
+    const templates = await readTemplates();
+    const index = templates.findIndex((item) => item.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: "Template tidak ditemukan" });
+      return;
+    }
+    if (updates.popLayout && !(await hasPopLayout(updates.popLayout))) {
+      res.status(400).json({ error: "Layout POP tidak ditemukan" });
+      return;
+    }
+
+    const current = templates[index];
+    const activeFrom = "activeFrom" in updates ? updates.activeFrom : current.activeFrom;
+    const activeUntil = "activeUntil" in updates ? updates.activeUntil : current.activeUntil;
+    if (activeFrom && activeUntil && activeFrom > activeUntil) {
+      res.status(400).json({ error: "Tanggal mulai harus sebelum tanggal berakhir" });
+      return;
+    }
+
+    if (parsed) {
+      // New file name so browsers and cached canvases do not keep the old image
+      const filename = `${current.id}-${Date.now()}.${extensionForMime(parsed.mime)}`;
+      await fs.writeFile(path.join(templatesDir, filename), parsed.buffer);
+      if (current.imageUrl) {
+        const oldPath = path.join(__dirname, current.imageUrl.replace("/uploads/", "uploads/"));
+        await fs.unlink(oldPath).catch(() => null);
+      }
+      updates.imageUrl = `/uploads/templates/${filename}`;
+    }
+
+    templates[index] = { ...current, ...updates, updatedAt: Date.now() };
+    await writeTemplates(templates);
+    res.json(templates[index]);
+  } catch (error) {
+    console.error("Failed to update template:", error);
+    res.status(500).json({ error: "Gagal memperbarui template" });
+  }
+});
+
+app.delete("/api/templates/:id", requireAuth, requireAdmin, async (req, res) => {
+  const id = req.params.id;
+  try {
+    const templates = await readTemplates();
+    const index = templates.findIndex((item) => item.id === id);
+    if (index === -1) {
+      res.status(404).json({ error: "Template tidak ditemukan" });
+      return;
+    }
+
+    const [removed] = templates.splice(index, 1);
+    if (removed?.imageUrl) {
+      const filePath = path.join(__dirname, removed.imageUrl.replace("/uploads/", "uploads/"));
+      await fs.unlink(filePath).catch(() => null);
+    }
+    await writeTemplates(templates);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete template:", error);
+    res.status(500).json({ error: "Gagal menghapus template" });
+  }
+});
+
+app.get("/api/sites", requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    const [rows] = await authPool.query(
+      "SELECT site_code, site_user FROM user_sites ORDER BY site_code ASC"
+    );
+    res.json(rows.map((row) => ({ code: String(row.site_code), name: row.site_user || String(row.site_code) })));
+  } catch (error) {
+    console.error("Failed to read sites:", error);
+    res.status(500).json({ error: "Gagal memuat daftar site" });
+  }
+});
+
+const MAX_BRAND_NAME = 80;
+
+// Brand segments come from product.segment2 and are matched case-insensitively
+const normalizeBrandSegment = (value) => String(value || "").trim().replace(/\s+/g, " ").toUpperCase();
+
+// Logos either come from the upload endpoint or from the bundled /brands folder
+const isBrandLogoUrl = (value) => /^\/(uploads\/)?brands\/[^/]+$/.test(value);
+
+/**
+ * Validates brand fields for create and update.
+ * Only keys present in the body are returned, so PATCH leaves the rest untouched.
+ */
+const parseBrandInput = (body) => {
+  const brand = {};
+  if (body.name !== undefined) {
+    const name = String(body.name || "").trim().slice(0, MAX_BRAND_NAME);
+    if (!name) return { error: "Nama brand wajib diisi" };
+    brand.name = name;
+  }
+  if (body.segment !== undefined) {
+    brand.segment = normalizeBrandSegment(body.segment);
+  }
+  if (body.logoUrl !== undefined) {
+    const logoUrl = String(body.logoUrl || "").trim();
+    if (logoUrl && !isBrandLogoUrl(logoUrl)) return { error: "URL logo tidak valid" };
+    brand.logoUrl = logoUrl || undefined;
+  }
+  if (body.logoText !== undefined) {
+    brand.logoText = String(body.logoText || "").trim().slice(0, 4).toUpperCase() || undefined;
+  }
+  for (const key of ["logoBg", "logoTextColor"]) {
+    if (body[key] === undefined) continue;
+    const color = String(body[key] || "").trim();
+    if (color && !HEX_COLOR_PATTERN.test(color)) return { error: "Warna brand tidak valid" };
+    brand[key] = color || undefined;
+  }
+  if (body.siteCodes !== undefined) {
+    brand.siteCodes = sanitizeSiteCodes(body.siteCodes);
+  }
+  return { brand };
+};
+
+const hasBrandSegment = (brands, segment, exceptId) =>
+  Boolean(segment) && brands.some((item) => item.id !== exceptId && item.segment === segment);
+
+app.get("/api/brands", requireAuth, async (req, res) => {
+  try {
+    const isAdmin = await isAdminUser(req.auth.user_id);
+    const brands = await readBrands();
+    res.json(isAdmin ? brands : brands.filter((brand) => isAvailableForSite(brand, req.auth.site_code)));
+  } catch (error) {
+    console.error("Failed to read brands:", error);
+    res.status(500).json({ error: "Gagal memuat brand" });
+  }
+});
+
+app.post("/api/brands", requireAuth, requireAdmin, async (req, res) => {
+  const body = req.body || {};
+  const { brand, error: inputError } = parseBrandInput({ ...body, name: body.name ?? "" });
+  if (inputError) {
+    res.status(400).json({ error: inputError });
+    return;
+  }
+
+  try {
+    const brands = await readBrands();
+    const segment = brand.segment || normalizeBrandSegment(brand.name);
+    if (hasBrandSegment(brands, segment)) {
+      res.status(409).json({ error: "Segment brand sudah terdaftar" });
+      return;
+    }
+
+    const now = Date.now();
+    const created = {
+      id: `brd-${crypto.randomUUID()}`,
+      logoText: brand.name.slice(0, 2).toUpperCase(),
+      siteCodes: [],
+      ...brand,
+      segment,
+      createdAt: now,
+      updatedAt: now,
+    };
+    brands.push(created);
+    await writeBrands(brands);
+    res.json(created);
+  } catch (error) {
+    console.error("Failed to create brand:", error);
+    res.status(500).json({ error: "Gagal menyimpan brand" });
+  }
+});
+
+app.patch("/api/brands/:id", requireAuth, requireAdmin, async (req, res) => {
+  const { brand, error: inputError } = parseBrandInput(req.body || {});
+  if (inputError) {
+    res.status(400).json({ error: inputError });
+    return;
+  }
+
+  try {
+    const brands = await readBrands();
+    const index = brands.findIndex((item) => item.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: "Brand tidak ditemukan" });
+      return;
+    }
+    if (brand.segment !== undefined && !brand.segment) {
+      brand.segment = normalizeBrandSegment(brand.name ?? brands[index].name);
+    }
+    if (hasBrandSegment(brands, brand.segment, brands[index].id)) {
+      res.status(409).json({ error: "Segment brand sudah terdaftar" });
+      return;
+    }
+
+    brands[index] = { ...brands[index], ...brand, updatedAt: Date.now() };
+    await writeBrands(brands);
+    res.json(brands[index]);
+  } catch (error) {
+    console.error("Failed to update brand:", error);
+    res.status(500).json({ error: "Gagal memperbarui brand" });
+  }
+});
+
+// The logo file is kept: several brands may point at the same upload
+app.delete("/api/brands/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const brands = await readBrands();
+    const index = brands.findIndex((item) => item.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: "Brand tidak ditemukan" });
+      return;
+    }
+    brands.splice(index, 1);
+    await writeBrands(brands);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete brand:", error);
+    res.status(500).json({ error: "Gagal menghapus brand" });
+  }
+});
+
+// Site scoping lives on the brand that points at the logo
+app.post("/api/brand-logos", requireAuth, requireAdmin, async (req, res) => {
+  const imageData = req.body?.imageData;
+  if (!imageData) {
+    res.status(400).json({ error: "Logo wajib diunggah" });
+    return;
+  }
+
+  const parsed = parseDataUrl(imageData);
+  if (!parsed) {
+    res.status(400).json({ error: "Format gambar tidak valid" });
+    return;
+  }
+
+  const id = `brand-${crypto.randomUUID()}`;
+  const ext = extensionForMime(parsed.mime);
+  const filename = `${id}.${ext}`;
+
+  try {
+    await fs.writeFile(path.join(brandDir, filename), parsed.buffer);
+    const logo = {
+      id,
+      name: String(req.body?.name || "").trim(),
+      url: `/uploads/brands/${filename}`,
+      uploadedAt: Date.now(),
+    };
+    const logos = await readBrandLogos();
+    logos.unshift(logo);
+    await writeBrandLogos(logos);
+    res.json(logo);
+  } catch (error) {
+    console.error("Failed to save brand logo:", error);
+    res.status(500).json({ error: "Gagal menyimpan logo" });
+  }
+});
+
+const OVERLAY_IMAGE_EXTENSIONS = { "image/png": "png", "image/jpeg": "jpg", "image/webp": "webp" };
+const MAX_OVERLAY_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_OVERLAY_IMAGES_PER_USER = 200;
+// Sessions kept only in the browser are invisible here, so unused files get a long grace period
+const OVERLAY_IMAGE_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const collectOverlayImageUrls = (pageOverlays, urls) => {
+  if (!pageOverlays || typeof pageOverlays !== "object") return;
+  for (const overlays of Object.values(pageOverlays)) {
+    if (!Array.isArray(overlays)) continue;
+    for (const overlay of overlays) {
+      if (typeof overlay?.imageUrl === "string") urls.add(overlay.imageUrl);
+    }
+  }
+};
+
+// Every overlay image URL a saved session or project still uses, whoever owns it
+const readReferencedOverlayImages = async () => {
+  const urls = new Set();
+  for (const project of await readProjects()) {
+    collectOverlayImageUrls(project.pageOverlays, urls);
+  }
+  for (const file of await fs.readdir(sessionsDir)) {
+    try {
+      const session = JSON.parse(await fs.readFile(path.join(sessionsDir, file), "utf8"));
+      collectOverlayImageUrls(session.pageOverlays, urls);
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+  return urls;
+};
+
+// Removes the user's overlay images that nothing saved uses and that are past the grace period
+const sweepOverlayImages = async (userId) => {
+  const images = await readOverlayImages();
+  const referenced = await readReferencedOverlayImages();
+  const cutoff = Date.now() - OVERLAY_IMAGE_GRACE_MS;
+  const stale = images.filter(
+    (image) => image.userId === userId && image.uploadedAt < cutoff && !referenced.has(image.url)
+  );
+  if (stale.length === 0) return images;
+
+  for (const image of stale) {
+    await fs.unlink(path.join(overlayDir, path.basename(image.url))).catch(() => null);
+  }
+  const kept = images.filter((image) => !stale.includes(image));
+  await writeOverlayImages(kept);
+  return kept;
+};
+
+// Cleanup after a session or project is dropped must not fail the request that dropped it
+const sweepOverlayImagesQuietly = (userId) =>
+  sweepOverlayImages(userId).catch((error) => {
+    console.error("Failed to clean up overlay images:", error);
+  });
+
+// Images placed on a page by any user; sessions and projects keep only the returned URL
+app.post("/api/overlay-images", requireAuth, async (req, res) => {
+  const parsed = parseDataUrl(req.body?.imageData);
+  const ext = parsed ? OVERLAY_IMAGE_EXTENSIONS[parsed.mime] : undefined;
+  if (!ext) {
+    res.status(400).json({ error: "Gambar harus berformat PNG, JPG atau WebP" });
+    return;
+  }
+  if (parsed.buffer.length > MAX_OVERLAY_IMAGE_BYTES) {
+    res.status(400).json({ error: "Ukuran gambar maksimal 5MB" });
+    return;
+  }
+
+  const userId = req.auth?.user_id;
+  const filename = `overlay-${crypto.randomUUID()}.${ext}`;
+  try {
+    const images = await sweepOverlayImages(userId);
+    if (images.filter((image) => image.userId === userId).length >= MAX_OVERLAY_IMAGES_PER_USER) {
+      res.status(400).json({ error: "Batas gambar overlay tercapai, hapus proyek yang tidak dipakai" });
+      return;
+    }
+
+    await fs.writeFile(path.join(overlayDir, filename), parsed.buffer);
+    const image = { url: `/uploads/overlays/${filename}`, userId, uploadedAt: Date.now() };
+    await writeOverlayImages([...images, image]);
+    res.json({ url: image.url });
+  } catch (error) {
+    console.error("Failed to save overlay image:", error);
+    res.status(500).json({ error: "Gagal menyimpan gambar" });
+  }
+});
+
+const MAX_PRODUCT_IMAGE_SKU = 64;
+
+app.get("/api/product-images", requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    res.json(await readProductImages());
+  } catch (error) {
+    console.error("Failed to read product images:", error);
+    res.status(500).json({ error: "Gagal memuat foto produk" });
+  }
+});
+
+// One image per SKU; uploading again replaces the previous file
+app.post("/api/product-images", requireAuth, requireAdmin, async (req, res) => {
+  const sku = normalizeImageSku(req.body?.sku);
+  if (!sku || sku.length > MAX_PRODUCT_IMAGE_SKU) {
+    res.status(400).json({ error: "SKU tidak valid" });
+    return;
+  }
+
+  const parsed = parseDataUrl(req.body?.imageData);
+  if (!parsed || !parsed.mime.startsWith("image/")) {
+    res.status(400).json({ error: "Format gambar tidak valid" });
+    return;
+  }
+
+  const filename = `product-${crypto.randomUUID()}.${extensionForMime(parsed.mime)}`;
+  try {
+    await fs.writeFile(path.join(productImageDir, filename), parsed.buffer);
+    const images = await readProductImages();
+    const previous = images.find((image) => normalizeImageSku(image.sku) === sku);
+    const image = { sku, url: `/uploads/products/${filename}`, uploadedAt: Date.now() };
+    await writeProductImages([image, ...images.filter((item) => item !== previous)]);
+    if (previous?.url) {
+      const oldPath = path.join(__dirname, previous.url.replace("/uploads/", "uploads/"));
+      await fs.unlink(oldPath).catch(() => null);
+    }
+    res.json(image);
+  } catch (error) {
+    console.error("Failed to save product image:", error);
+    res.status(500).json({ error: "Gagal menyimpan foto produk" });
+  }
+});
+
+app.delete("/api/product-images/:sku", requireAuth, requireAdmin, async (req, res) => {
+  const sku = normalizeImageSku(req.params.sku);
+  try {
+    const images = await readProductImages();
+    const index = images.findIndex((image) => normalizeImageSku(image.sku) === sku);
+    if (index === -1) {
+      res.status(404).json({ error: "Foto produk tidak ditemukan" });
+      return;
+    }
+
+    const [removed] = images.splice(index, 1);
+    if (removed?.url) {
+      const filePath = path.join(__dirname, removed.url.replace("/uploads/", "uploads/"));
+      await fs.unlink(filePath).catch(() => null);
+    }
+    await writeProductImages(images);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete product image:", error);
+    res.status(500).json({ error: "Gagal menghapus foto produk" });
+  }
+});
+
+const FONT_WEIGHTS = [400, 500, 600, 700, 800, 900];
+
+// TrueType only: the vector PDF export embeds the same file and jsPDF cannot read CFF outlines
+const isTrueTypeFont = (buffer) => {
+  if (buffer.length < 4) return false;
+  const signature = buffer.readUInt32BE(0);
+  return signature === 0x00010000 || buffer.subarray(0, 4).toString("latin1") === "true";
+};
+
+// Readable by every user: POPs rendered with a themed template need the files too
+app.get("/api/fonts", async (_req, res) => {
+  try {
+    res.json(await readFonts());
+  } catch (error) {
+    console.error("Failed to read fonts:", error);
+    res.status(500).json({ error: "Gagal memuat font" });
+  }
+});
+
+// One file per family and weight; uploading again replaces the previous file
+app.post("/api/fonts", requireAuth, requireAdmin, async (req, res) => {
+  const family = String(req.body?.family || "").trim();
+  if (!FONT_FAMILY_PATTERN.test(family)) {
+    res.status(400).json({ error: "Nama font hanya boleh huruf, angka dan spasi (maks. 40)" });
+    return;
+  }
+
+  const weight = Number(req.body?.weight);
+  if (!FONT_WEIGHTS.includes(weight)) {
+    res.status(400).json({ error: "Ketebalan font tidak valid" });
+    return;
+  }
+
+  const parsed = parseDataUrl(req.body?.fontData);
+  if (!parsed || !isTrueTypeFont(parsed.buffer)) {
+    res.status(400).json({ error: "File font harus berformat TTF" });
+    return;
+  }
+
+  const filename = `font-${crypto.randomUUID()}.ttf`;
+  try {
+    await fs.writeFile(path.join(fontDir, filename), parsed.buffer);
+    const fonts = await readFonts();
+    const previous = fonts.find(
+      (font) => font.family.toLowerCase() === family.toLowerCase() && font.weight === weight
+    );
+    const font = {
+      id: crypto.randomUUID(),
+      family: previous?.family ?? family,
+      weight,
+      url: `/uploads/fonts/${filename}`,
+      uploadedAt: Date.now(),
+    };
+    await writeFonts([font, ...fonts.filter((item) => item !== previous)]);
+    if (previous?.url) {
+      const oldPath = path.join(__dirname, previous.url.replace("/uploads/", "uploads/"));
+      await fs.unlink(oldPath).catch(() => null);
+    }
+    res.json(font);
+  } catch (error) {
+    console.error("Failed to save font:", error);
+    res.status(500).json({ error: "Gagal menyimpan font" });
+  }
+});
+
+app.delete("/api/fonts/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const fonts = await readFonts();
+    const index = fonts.findIndex((font) => font.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: "Font tidak ditemukan" });
+      return;
+    }
+
+    const [removed] = fonts.splice(index, 1);
+    if (removed?.url) {
+      const filePath = path.join(__dirname, removed.url.replace("/uploads/", "uploads/"));
+      await fs.unlink(filePath).catch(() => null);
+    }
+    await writeFonts(fonts);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete font:", error);
+    res.status(500).json({ error: "Gagal menghapus font" });
+  }
+});
+
+// Readable by every user: rendering needs the layout a template or queue entry names
+app.get("/api/pop-layouts", async (_req, res) => {
+  try {
+    res.json(await readPopLayouts());
+  } catch (error) {
+    console.error("Failed to read POP layouts:", error);
+    res.status(500).json({ error: "Gagal memuat layout POP" });
+  }
+});
+
+// Creates the layout or replaces the one with the same id
+app.put("/api/pop-layouts/:id", requireAuth, requireAdmin, async (req, res) => {
+  const { layout, error: layoutError } = parsePopLayout({ ...req.body, id: req.params.id });
+  if (layoutError) {
+    res.status(400).json({ error: layoutError });
+    return;
+  }
+
+  try {
+    const layouts = await readPopLayouts();
+    const index = layouts.findIndex((item) => item.id === layout.id);
+    if (index === -1) {
+      layouts.push(layout);
+    } else {
+      layouts[index] = layout;
+    }
+    await writePopLayouts(layouts);
+    res.json(layout);
+  } catch (error) {
+    console.error("Failed to save POP layout:", error);
+    res.status(500).json({ error: "Gagal menyimpan layout POP" });
+  }
+});
+
+// Templates and queue entries still naming a deleted layout fall back to the standard one
+app.delete("/api/pop-layouts/:id", requireAuth, requireAdmin, async (req, res) => {
+  if (req.params.id === DEFAULT_POP_LAYOUT_ID) {
+    res.status(400).json({ error: "Layout standar tidak dapat dihapus" });
+    return;
+  }
+
+  try {
+    const layouts = await readPopLayouts();
+    const index = layouts.findIndex((layout) => layout.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: "Layout POP tidak ditemukan" });
+      return;
+    }
+    layouts.splice(index, 1);
+    await writePopLayouts(layouts);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete POP layout:", error);
+    res.status(500).json({ error: "Gagal menghapus layout POP" });
+  }
+});
+
+app.get("/api/products/:sku", requireAuth, async (req, res) => {
+  const sku = String(req.params.sku || "").trim();
   if (!sku) {
     res.status(400).json({ error: "SKU wajib diisi" });
     return;
@@ -466,40 +1584,75 @@ app.get("/api/products/:sku", requireAuth, async (req, res) => {
   }
   const sitePool = getSitePool(site);
 
-  const sql = `
-    SELECT
-                    p.pd_code AS code,
-                    p.pd_short_desc AS name,
-                    ROUND(p.base_price) AS base_price,
-                    ROUND(p.final_price) AS final_price,
-                    p.disc_1 AS disc1,
-                    p.disc_2 AS disc2,
-                    p.disc_3 AS disc3,
-                    p.disc_4 AS disc4,
-                    round(ifnull(p.base_price,0) / p.size) as base_price_per_meter,
-                    round(ifnull(p.final_price,0) / p.size) as final_price_per_meter,
-                    p.pd_uom as uom,
-                    p.size as size,
-                    CASE
-                        WHEN p.pd_short_desc LIKE '%SPECTRUM TBA%' THEN 'sci'
-                        WHEN pd.segment1 = 'CAT' AND pd.segment2 = 'SPECTRUM' THEN 'SPECTRUM_CAT'
-                        ELSE pd.segment2
-                    END AS brand,
-                    pd.segment4,
-                    pd.consignment as co
-                    FROM rpt_price_tag_v2 p inner join product pd on p.pd_code = pd.pd_code
-                    WHERE TRIM(p.pd_code) = TRIM(?)
-    ORDER BY p.effdate DESC
-    LIMIT 1;
-  `;
-
   try {
-    const [rows] = await sitePool.query(sql, [sku]);
+    const [rows] = await sitePool.query(productLookupSql, [sku]);
     if (!rows || rows.length === 0) {
       res.status(404).json({ error: "Produk tidak ditemukan" });
       return;
     }
-    res.json(buildProductResponse(rows[0]));
+    res.json(buildProductResponse(rows[0], await readProductImageIndex()));
+  } catch (error) {
+    console.error("DB error:", error);
+    res.status(500).json({ error: "Gagal mengambil data produk" });
+  }
+});
+
+const MAX_BATCH_SKUS = 500;
+
+app.post("/api/products/batch", requireAuth, async (req, res) => {
+  const rawSkus = Array.isArray(req.body?.skus) ? req.body.skus : null;
+  if (!rawSkus) {
+    res.status(400).json({ error: "Daftar SKU wajib diisi" });
+    return;
+  }
+
+  const skusByKey = new Map();
+  for (const rawSku of rawSkus) {
+    const sku = String(rawSku || "").trim();
+    if (sku && !skusByKey.has(sku.toUpperCase())) {
+      skusByKey.set(sku.toUpperCase(), sku);
+    }
+  }
+  const skus = [...skusByKey.values()];
+  if (skus.length === 0) {
+    res.status(400).json({ error: "Daftar SKU wajib diisi" });
+    return;
+  }
+  if (skus.length > MAX_BATCH_SKUS) {
+    res.status(400).json({ error: `Maksimal ${MAX_BATCH_SKUS} SKU per permintaan` });
+    return;
+  }
+
+  const site = await getSiteConfig(req.auth?.site_code);
+  if (!site) {
+    res.status(500).json({ error: "Mapping site tidak ditemukan" });
+    return;
+  }
+  const sitePool = getSitePool(site);
+
+  try {
+    const [rows] = await sitePool.query(productBatchSql, [skus, skus]);
+    const productImages = await readProductImageIndex();
+    const rowsBySku = new Map();
+    for (const row of rows || []) {
+      const key = String(row.code ?? "").trim().toUpperCase();
+      // Several rows can share the latest effdate; keep the first one per SKU
+      if (key && !rowsBySku.has(key)) {
+        rowsBySku.set(key, row);
+      }
+    }
+
+    const items = [];
+    const missing = [];
+    for (const sku of skus) {
+      const row = rowsBySku.get(sku.toUpperCase());
+      if (row) {
+        items.push(buildProductResponse(row, productImages));
+      } else {
+        missing.push(sku);
+      }
+    }
+    res.json({ items, missing });
   } catch (error) {
     console.error("DB error:", error);
     res.status(500).json({ error: "Gagal mengambil data produk" });
@@ -568,8 +1721,256 @@ app.get("/api/brand-segments", requireAuth, async (req, res) => {
   }
 });
 
+const sessionPathFor = (userId) =>
+  path.join(sessionsDir, `${String(userId).replace(/[^0-9A-Za-z_-]/g, "")}.json`);
+
+app.get("/api/session", requireAuth, async (req, res) => {
+  const userId = req.auth?.user_id;
+  if (!userId) {
+    res.status(401).json({ error: "Token tidak valid" });
+    return;
+  }
+
+  try {
+    const raw = await fs.readFile(sessionPathFor(userId), "utf8");
+    res.json(JSON.parse(raw));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      res.status(404).json({ error: "Sesi tidak ditemukan" });
+      return;
+    }
+    console.error("Failed to read session:", error);
+    res.status(500).json({ error: "Gagal memuat sesi" });
+  }
+});
+
+app.put("/api/session", requireAuth, async (req, res) => {
+  const userId = req.auth?.user_id;
+  if (!userId) {
+    res.status(401).json({ error: "Token tidak valid" });
+    return;
+  }
+
+  const session = req.body;
+  if (!session || typeof session !== "object" || !Array.isArray(session.products)) {
+    res.status(400).json({ error: "Data sesi tidak valid" });
+    return;
+  }
+
+  try {
+    const stored = {
+      ...session,
+      savedAt: Number(session.savedAt) || Date.now(),
+      siteCode: req.auth?.site_code,
+    };
+    await fs.writeFile(sessionPathFor(userId), JSON.stringify(stored), "utf8");
+    res.json({ ok: true, savedAt: stored.savedAt });
+  } catch (error) {
+    console.error("Failed to save session:", error);
+    res.status(500).json({ error: "Gagal menyimpan sesi" });
+  }
+});
+
+app.delete("/api/session", requireAuth, async (req, res) => {
+  const userId = req.auth?.user_id;
+  if (!userId) {
+    res.status(401).json({ error: "Token tidak valid" });
+    return;
+  }
+
+  try {
+    await fs.unlink(sessionPathFor(userId)).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+    await sweepOverlayImagesQuietly(userId);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete session:", error);
+    res.status(500).json({ error: "Gagal menghapus sesi" });
+  }
+});
+
+const MAX_PROJECT_NAME = 120;
+
+const isProjectOwner = (project, auth) =>
+  project.userId === auth?.user_id && String(project.siteCode) === String(auth?.site_code);
+
+const toProjectSummary = (project) => ({
+  id: project.id,
+  name: project.name,
+  selectedTemplate: project.selectedTemplate,
+  productCount: Array.isArray(project.products) ? project.products.length : 0,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+});
+
+const readProjectContent = (body) => {
+  if (!Array.isArray(body?.products)) return null;
+  return {
+    products: body.products,
+    selectedTemplate: String(body.selectedTemplate || ""),
+    itemTransforms:
+      body.itemTransforms && typeof body.itemTransforms === "object" ? body.itemTransforms : {},
+    settings: body.settings && typeof body.settings === "object" ? body.settings : undefined,
+    pageOverlays:
+      body.pageOverlays && typeof body.pageOverlays === "object" ? body.pageOverlays : {},
+  };
+};
+
+const readProjectName = (value) => String(value || "").trim().slice(0, MAX_PROJECT_NAME);
+
+app.get("/api/projects", requireAuth, async (req, res) => {
+  try {
+    const projects = await readProjects();
+    const owned = projects
+      .filter((project) => isProjectOwner(project, req.auth))
+      .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0))
+      .map(toProjectSummary);
+    res.json(owned);
+  } catch (error) {
+    console.error("Failed to read projects:", error);
+    res.status(500).json({ error: "Gagal memuat proyek" });
+  }
+});
+
+app.get("/api/projects/:id", requireAuth, async (req, res) => {
+  try {
+    const projects = await readProjects();
+    const project = projects.find((item) => item.id === req.params.id);
+    if (!project || !isProjectOwner(project, req.auth)) {
+      res.status(404).json({ error: "Proyek tidak ditemukan" });
+      return;
+    }
+    res.json(project);
+  } catch (error) {
+    console.error("Failed to read project:", error);
+    res.status(500).json({ error: "Gagal memuat proyek" });
+  }
+});
+
+app.post("/api/projects", requireAuth, async (req, res) => {
+  const name = readProjectName(req.body?.name);
+  const content = readProjectContent(req.body);
+  if (!name || !content) {
+    res.status(400).json({ error: "Nama proyek dan daftar produk wajib diisi" });
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    const project = {
+      id: `prj-${crypto.randomUUID()}`,
+      name,
+      userId: req.auth?.user_id,
+      siteCode: req.auth?.site_code,
+      ...content,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const projects = await readProjects();
+    projects.unshift(project);
+    await writeProjects(projects);
+    res.json(project);
+  } catch (error) {
+    console.error("Failed to create project:", error);
+    res.status(500).json({ error: "Gagal menyimpan proyek" });
+  }
+});
+
+app.put("/api/projects/:id", requireAuth, async (req, res) => {
+  const content = readProjectContent(req.body);
+  if (!content) {
+    res.status(400).json({ error: "Daftar produk wajib diisi" });
+    return;
+  }
+
+  try {
+    const projects = await readProjects();
+    const index = projects.findIndex((item) => item.id === req.params.id);
+    if (index === -1 || !isProjectOwner(projects[index], req.auth)) {
+      res.status(404).json({ error: "Proyek tidak ditemukan" });
+      return;
+    }
+
+    const name = readProjectName(req.body?.name) || projects[index].name;
+    const project = { ...projects[index], ...content, name, updatedAt: Date.now() };
+    projects[index] = project;
+    await writeProjects(projects);
+    res.json(project);
+  } catch (error) {
+    console.error("Failed to update project:", error);
+    res.status(500).json({ error: "Gagal menyimpan proyek" });
+  }
+});
+
+app.post("/api/projects/:id/duplicate", requireAuth, async (req, res) => {
+  try {
+    const projects = await readProjects();
+    const source = projects.find((item) => item.id === req.params.id);
+    if (!source || !isProjectOwner(source, req.auth)) {
+      res.status(404).json({ error: "Proyek tidak ditemukan" });
+      return;
+    }
+
+    const now = Date.now();
+    const project = {
+      ...source,
+      id: `prj-${crypto.randomUUID()}`,
+      name: readProjectName(req.body?.name) || `${source.name} (salinan)`.slice(0, MAX_PROJECT_NAME),
+      createdAt: now,
+      updatedAt: now,
+    };
+    projects.unshift(project);
+    await writeProjects(projects);
+    res.json(toProjectSummary(project));
+  } catch (error) {
+    console.error("Failed to duplicate project:", error);
+    res.status(500).json({ error: "Gagal menduplikasi proyek" });
+  }
+});
+
+app.delete("/api/projects/:id", requireAuth, async (req, res) => {
+  try {
+    const projects = await readProjects();
+    const index = projects.findIndex((item) => item.id === req.params.id);
+    if (index === -1 || !isProjectOwner(projects[index], req.auth)) {
+      res.status(404).json({ error: "Proyek tidak ditemukan" });
+      return;
+    }
+
+    projects.splice(index, 1);
+    await writeProjects(projects);
+    await sweepOverlayImagesQuietly(req.auth?.user_id);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete project:", error);
+    res.status(500).json({ error: "Gagal menghapus proyek" });
+  }
+});
+
+// Logos uploaded before the registry existed get a record too
+const registerUntrackedBrandLogos = async () => {
+  const logos = await readBrandLogos();
+  const known = new Set(logos.map((logo) => logo.url));
+  const files = await fs.readdir(brandDir);
+  const untracked = files.filter((file) => !known.has(`/uploads/brands/${file}`));
+  if (untracked.length === 0) return;
+
+  for (const file of untracked) {
+    const stat = await fs.stat(path.join(brandDir, file));
+    logos.push({
+      id: path.parse(file).name,
+      name: "",
+      url: `/uploads/brands/${file}`,
+      uploadedAt: Math.round(stat.mtimeMs),
+    });
+  }
+  await writeBrandLogos(logos);
+};
+
 const startServer = async () => {
   await ensureStorage();
+  await registerUntrackedBrandLogos();
   app.listen(PORT, () => {
     console.log(`API server running on port ${PORT}`);
   });
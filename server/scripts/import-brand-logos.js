@@ -0,0 +1,59 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Registers the bundled logos in public/brands (named after their segment2 value) as brands
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const publicBrandsDir = path.join(__dirname, "..", "..", "public", "brands");
+const brandsPath = path.join(__dirname, "..", "data", "brands.json");
+
+// Older uploads were copied here under generated names; they carry no brand name
+const GENERATED_NAME = /^brand-[0-9a-f-]{36}$/i;
+
+const normalizeBrandSegment = (value) => String(value || "").trim().replace(/\s+/g, " ").toUpperCase();
+
+const readBrands = async () => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(brandsPath, "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const run = async () => {
+  const brands = await readBrands();
+  const knownSegments = new Set(brands.map((brand) => brand.segment));
+  const files = (await fs.readdir(publicBrandsDir)).sort();
+  const now = Date.now();
+  let added = 0;
+
+  for (const file of files) {
+    const name = path.parse(file).name.trim();
+    const segment = normalizeBrandSegment(name);
+    if (!segment || GENERATED_NAME.test(name) || knownSegments.has(segment)) continue;
+
+    brands.push({
+      id: `brd-${crypto.randomUUID()}`,
+      name,
+      segment,
+      logoUrl: `/brands/${file}`,
+      logoText: name.slice(0, 2).toUpperCase(),
+      siteCodes: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    knownSegments.add(segment);
+    added += 1;
+  }
+
+  await fs.writeFile(brandsPath, JSON.stringify(brands, null, 2), "utf8");
+  console.log(`Imported ${added} brand(s), ${brands.length} total`);
+};
+
+run().catch((error) => {
+  console.error("Failed to import brand logos:", error);
+  process.exit(1);
+});
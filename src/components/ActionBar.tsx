@@ -1,27 +1,65 @@
 import { Button } from '@/components/ui/button';
-import { Eye, Download, Printer } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Eye, Download, Printer, FilePlus, Undo2, Redo2 } from 'lucide-react';
+import { TemplateKind } from '@/data/templates';
 
 interface ActionBarProps {
   onGeneratePreview: () => void;
   onDownloadPDF: () => void;
   onPrint: () => void;
+  onNewSession: () => void;
+  sessionSync: boolean;
+  onSessionSyncChange: (enabled: boolean) => void;
+  sessionSavedAt: number | null;
   hasProducts: boolean;
+  templateKind: TemplateKind;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
+const formatSavedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
 export const ActionBar = ({
   onGeneratePreview,
   onDownloadPDF,
   onPrint,
+  onNewSession,
+  sessionSync,
+  onSessionSyncChange,
+  sessionSavedAt,
   hasProducts,
+  templateKind,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
 }: ActionBarProps) => {
+  // Theme and sticker pages are complete without any product
+  const canRunActions = hasProducts || templateKind !== 'product';
+
   return (
     <div className="space-y-3">
       <h3 className="section-title">Aksi</h3>
       
       <div className="space-y-2">
+        <div className="flex gap-2">
+          <Button onClick={onUndo} disabled={!canUndo} variant="outline" className="flex-1" title="Urungkan (Ctrl+Z)">
+            <Undo2 className="w-4 h-4 mr-2" />
+            Urungkan
+          </Button>
+          <Button onClick={onRedo} disabled={!canRedo} variant="outline" className="flex-1" title="Ulangi (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4 mr-2" />
+            Ulangi
+          </Button>
+        </div>
+
         <Button
           onClick={onGeneratePreview}
-          disabled={!hasProducts}
+          disabled={!canRunActions}
           className="w-full"
           size="lg"
         >
@@ -32,7 +70,7 @@ export const ActionBar = ({
         <div className="flex gap-2">
           <Button
             onClick={onDownloadPDF}
-            disabled={!hasProducts}
+            disabled={!canRunActions}
             variant="secondary"
             className="flex-1"
           >
@@ -42,7 +80,7 @@ export const ActionBar = ({
           
           <Button
             onClick={onPrint}
-            disabled={!hasProducts}
+            disabled={!canRunActions}
             variant="secondary"
             className="flex-1"
           >
@@ -50,6 +88,27 @@ export const ActionBar = ({
             Cetak
           </Button>
         </div>
+
+        <Button onClick={onNewSession} variant="outline" className="w-full">
+          <FilePlus className="w-4 h-4 mr-2" />
+          Mulai Sesi Baru
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="sessionSync"
+            checked={sessionSync}
+            onCheckedChange={(checked) => onSessionSyncChange(checked === true)}
+          />
+          <Label htmlFor="sessionSync" className="text-sm cursor-pointer">
+            Simpan sesi ke server
+          </Label>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {sessionSavedAt ? `Tersimpan ${formatSavedAt(sessionSavedAt)}` : 'Belum tersimpan'}
+        </span>
       </div>
     </div>
   );
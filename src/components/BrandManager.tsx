@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Save, Tags, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Brand, normalizeBrandSegment } from '@/data/brands';
+import { brandStorage } from '@/lib/brandStorage';
+import { SiteScopeSelect } from './SiteScopeSelect';
+
+interface BrandManagerProps {
+  /** Registered brands only; the built-in seeds are not editable */
+  brands: Brand[];
+  onBrandsChange: (brands: Brand[]) => void;
+}
+
+type BrandDraft = Pick<Brand, 'segment' | 'logoBg' | 'logoTextColor' | 'siteCodes'>;
+
+const toDraft = (brand: Brand): BrandDraft => ({
+  segment: brand.segment ?? '',
+  logoBg: brand.logoBg ?? '#ffffff',
+  logoTextColor: brand.logoTextColor ?? '#111827',
+  siteCodes: brand.siteCodes ?? [],
+});
+
+const isDraftChanged = (brand: Brand, draft: BrandDraft) => {
+  const original = toDraft(brand);
+  return (
+    normalizeBrandSegment(draft.segment) !== original.segment ||
+    draft.logoBg !== original.logoBg ||
+    draft.logoTextColor !== original.logoTextColor ||
+    draft.siteCodes.length !== original.siteCodes.length ||
+    draft.siteCodes.some((code) => !original.siteCodes.includes(code))
+  );
+};
+
+export const BrandManager = ({ brands, onBrandsChange }: BrandManagerProps) => {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, BrandDraft>>({});
+  const [search, setSearch] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const draftFor = (brand: Brand) => drafts[brand.id] ?? toDraft(brand);
+
+  const updateDraft = (brand: Brand, patch: Partial<BrandDraft>) => {
+    setDrafts((prev) => ({ ...prev, [brand.id]: { ...draftFor(brand), ...patch } }));
+  };
+
+  const handleSave = async (brand: Brand) => {
+    const draft = draftFor(brand);
+    setBusyId(brand.id);
+    try {
+      const updated = await brandStorage.updateBrand(brand.id, {
+        segment: normalizeBrandSegment(draft.segment),
+        logoBg: draft.logoBg,
+        logoTextColor: draft.logoTextColor,
+        siteCodes: draft.siteCodes,
+      });
+      onBrandsChange(brands.map((item) => (item.id === updated.id ? updated : item)));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[brand.id];
+        return next;
+      });
+      toast.success(`Brand "${updated.name}" diperbarui`);
+    } catch (error) {
+      console.error('Failed to update brand:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal memperbarui brand');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (brand: Brand) => {
+    if (!confirm(`Hapus brand "${brand.name}"?`)) return;
+    setBusyId(brand.id);
+    try {
+      await brandStorage.deleteBrand(brand.id);
+      onBrandsChange(brands.filter((item) => item.id !== brand.id));
+      toast.success('Brand dihapus');
+    } catch (error) {
+      console.error('Failed to delete brand:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus brand');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const searchKey = normalizeBrandSegment(search);
+  const visibleBrands = searchKey
+    ? brands.filter((brand) => normalizeBrandSegment(`${brand.name} ${brand.segment ?? ''}`).includes(searchKey))
+    : brands;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setDrafts({});
+          setSearch('');
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="secondary" size="sm" className="gap-2">
+          <Tags className="w-4 h-4" />
+          Kelola Brand
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle>Kelola Brand</DialogTitle>
+          <DialogDescription>
+            Hubungkan segment brand dari database ke logo dan warna. Brand tanpa site dipakai oleh semua site.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input placeholder="Cari brand..." value={search} onChange={(e) => setSearch(e.target.value)} />
+
+        {visibleBrands.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Belum ada brand terdaftar</div>
+        ) : (
+          <div className="max-h-96 overflow-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Logo</TableHead>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Segment</TableHead>
+                  <TableHead className="w-24">Warna</TableHead>
+                  <TableHead className="w-44">Site</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleBrands.map((brand) => {
+                  const draft = draftFor(brand);
+                  const isBusy = busyId === brand.id;
+                  return (
+                    <TableRow key={brand.id}>
+                      <TableCell>
+                        {brand.logoData ? (
+                          <img src={brand.logoData} alt={brand.name} className="h-8 max-w-16 object-contain" />
+                        ) : (
+                          <span
+                            className="inline-flex h-8 w-8 items-center justify-center rounded text-xs font-bold"
+                            style={{ backgroundColor: draft.logoBg, color: draft.logoTextColor }}
+                          >
+                            {brand.logoText}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{brand.name}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.segment}
+                          onChange={(e) => updateDraft(brand, { segment: e.target.value })}
+                          className="h-8 text-xs uppercase"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <input
+                            type="color"
+                            title="Warna latar"
+                            value={draft.logoBg}
+                            onChange={(e) => updateDraft(brand, { logoBg: e.target.value })}
+                            className="h-8 w-8 cursor-pointer rounded border border-border"
+                          />
+                          <input
+                            type="color"
+                            title="Warna teks"
+                            value={draft.logoTextColor}
+                            onChange={(e) => updateDraft(brand, { logoTextColor: e.target.value })}
+                            className="h-8 w-8 cursor-pointer rounded border border-border"
+                          />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <SiteScopeSelect
+                          id={`brand-sites-${brand.id}`}
+                          value={draft.siteCodes}
+                          onChange={(siteCodes) => updateDraft(brand, { siteCodes })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Simpan"
+                            disabled={isBusy || !isDraftChanged(brand, draft)}
+                            onClick={() => handleSave(brand)}
+                          >
+                            <Save className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Hapus brand"
+                            disabled={isBusy}
+                            onClick={() => handleDelete(brand)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
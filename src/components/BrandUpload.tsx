@@ -5,8 +5,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Upload, Plus } from 'lucide-react';
 import { toast } from 'sonner';
-import { Brand } from '@/data/brands';
-import { getAuthToken } from '@/lib/auth';
+import { Brand, normalizeBrandSegment } from '@/data/brands';
+import { brandLogoStorage } from '@/lib/brandLogoStorage';
+import { brandStorage } from '@/lib/brandStorage';
+import { fetchBrandSegments } from '@/lib/productApi';
+import { SiteScopeSelect } from './SiteScopeSelect';
 
 interface BrandUploadProps {
   onAdd: (brand: Brand) => void;
@@ -15,7 +18,12 @@ interface BrandUploadProps {
 export const BrandUpload = ({ onAdd }: BrandUploadProps) => {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState('');
+  const [segment, setSegment] = useState('');
+  const [segmentOptions, setSegmentOptions] = useState<string[]>([]);
+  const [logoBg, setLogoBg] = useState('#0284c7');
+  const [logoTextColor, setLogoTextColor] = useState('#ffffff');
   const [logoData, setLogoData] = useState<string | undefined>();
+  const [siteCodes, setSiteCodes] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
 
@@ -45,52 +53,47 @@ export const BrandUpload = ({ onAdd }: BrandUploadProps) => {
       toast.error('Nama brand wajib diisi');
       return;
     }
-    if (!logoData) {
-      toast.error('Logo wajib diunggah');
-      return;
-    }
 
     setSaving(true);
     try {
-      const token = getAuthToken();
-      const response = await fetch('/api/brand-logos', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ imageData: logoData }),
-      });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload?.error || 'Gagal mengunggah logo');
-      }
-
-      const payload = await response.json();
-      const brand: Brand = {
-        id: `brand-${Date.now()}`,
+      const logo = logoData
+        ? await brandLogoStorage.uploadLogo({ name: trimmedName, imageData: logoData })
+        : null;
+      const brand: Brand = await brandStorage.createBrand({
         name: trimmedName,
-        logoData: payload.url,
-        logoText: trimmedName.slice(0, 2).toUpperCase(),
-      };
+        segment: normalizeBrandSegment(segment || trimmedName),
+        logoUrl: logo?.url,
+        logoBg,
+        logoTextColor,
+        siteCodes,
+      });
 
       onAdd(brand);
       setName('');
+      setSegment('');
       setLogoData(undefined);
+      setSiteCodes([]);
       if (fileRef.current) fileRef.current.value = '';
       setOpen(false);
       toast.success('Brand ditambahkan');
     } catch (error) {
-      console.error('Upload logo error:', error);
-      toast.error('Gagal menyimpan logo');
+      console.error('Failed to create brand:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan brand');
     } finally {
       setSaving(false);
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen && segmentOptions.length === 0) {
+          fetchBrandSegments().then(setSegmentOptions);
+        }
+      }}
+    >
       <DialogTrigger asChild>
         <Button variant="secondary" size="sm" className="gap-2">
           <Plus className="w-4 h-4" />
@@ -100,7 +103,9 @@ export const BrandUpload = ({ onAdd }: BrandUploadProps) => {
       <DialogContent className="sm:max-w-[420px]">
         <DialogHeader>
           <DialogTitle>Tambah Brand</DialogTitle>
-          <DialogDescription>Isi nama brand dan upload logo untuk digunakan di POP.</DialogDescription>
+          <DialogDescription>
+            Isi nama brand, pilih segment brand dari database, lalu upload logo untuk digunakan di POP.
+          </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
           <div className="space-y-2">
@@ -113,7 +118,22 @@ export const BrandUpload = ({ onAdd }: BrandUploadProps) => {
             />
           </div>
           <div className="space-y-2">
-            <Label>Logo Brand</Label>
+            <Label htmlFor="brand-segment">Segment Brand</Label>
+            <Input
+              id="brand-segment"
+              list="brand-segment-options"
+              placeholder="Sama dengan nama brand"
+              value={segment}
+              onChange={(e) => setSegment(e.target.value)}
+            />
+            <datalist id="brand-segment-options">
+              {segmentOptions.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label>Logo Brand (opsional)</Label>
             <div className="border-2 border-dashed border-border rounded-lg p-4 flex flex-col items-center gap-3">
               {logoData ? (
                 <img src={logoData} alt="Preview logo" className="h-20 object-contain" />
@@ -138,6 +158,32 @@ export const BrandUpload = ({ onAdd }: BrandUploadProps) => {
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="brand-bg">Warna Badge</Label>
+              <input
+                id="brand-bg"
+                type="color"
+                value={logoBg}
+                onChange={(e) => setLogoBg(e.target.value)}
+                className="h-9 w-full cursor-pointer rounded border border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-text-color">Warna Teks</Label>
+              <input
+                id="brand-text-color"
+                type="color"
+                value={logoTextColor}
+                onChange={(e) => setLogoTextColor(e.target.value)}
+                className="h-9 w-full cursor-pointer rounded border border-border"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brand-sites">Site</Label>
+            <SiteScopeSelect id="brand-sites" value={siteCodes} onChange={setSiteCodes} />
+          </div>
           <Button onClick={handleSave} disabled={saving} className="w-full">
             {saving ? 'Menyimpan...' : 'Simpan Brand'}
           </Button>
@@ -0,0 +1,214 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2, Type, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  FONT_WEIGHT_OPTIONS,
+  UploadedFont,
+  fontStackFor,
+  fontStorage,
+  registerUploadedFonts,
+} from '@/lib/fontStorage';
+
+const MAX_FONT_SIZE = 5 * 1024 * 1024;
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(new Error('Gagal membaca file'));
+    reader.readAsDataURL(file);
+  });
+
+// "Poppins-Bold.ttf" suggests "Poppins"; the weight is picked separately
+const familyFromFilename = (filename: string) =>
+  filename.replace(/\.[^.]+$/, '').split(/[-_]/)[0].replace(/[^A-Za-z0-9 ]/g, '').slice(0, 40);
+
+export const FontManager = () => {
+  const [open, setOpen] = useState(false);
+  const [fonts, setFonts] = useState<UploadedFont[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [family, setFamily] = useState('');
+  const [weight, setWeight] = useState('400');
+  const [busy, setBusy] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Registering also makes the previews below render in their own font
+  const loadFonts = async () => {
+    setIsLoading(true);
+    try {
+      setFonts(await fontStorage.getFonts());
+      await registerUploadedFonts();
+    } catch (error) {
+      console.error('Failed to load fonts:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat font');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!/\.ttf$/i.test(file.name)) {
+      toast.error('File font harus berformat TTF');
+      return;
+    }
+    if (file.size > MAX_FONT_SIZE) {
+      toast.error('Ukuran file maksimal 5MB');
+      return;
+    }
+    const targetFamily = family.trim() || familyFromFilename(file.name);
+    if (!targetFamily) {
+      toast.error('Nama font wajib diisi');
+      return;
+    }
+
+    setBusy('upload');
+    try {
+      const font = await fontStorage.uploadFont(targetFamily, Number(weight), await readFileAsDataUrl(file));
+      setFonts((prev) => [
+        font,
+        ...prev.filter((item) => !(item.family === font.family && item.weight === font.weight)),
+      ]);
+      await registerUploadedFonts();
+      setFamily('');
+      toast.success(`Font ${font.family} ${font.weight} disimpan`);
+    } catch (error) {
+      console.error('Failed to upload font:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan font');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (font: UploadedFont) => {
+    if (!confirm(`Hapus font ${font.family} ${font.weight}? Template yang memakainya kembali ke Inter.`)) return;
+    setBusy(font.id);
+    try {
+      await fontStorage.deleteFont(font.id);
+      setFonts((prev) => prev.filter((item) => item.id !== font.id));
+      await registerUploadedFonts();
+      toast.success('Font dihapus');
+    } catch (error) {
+      console.error('Failed to delete font:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus font');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) {
+          loadFonts();
+        } else {
+          setFamily('');
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="secondary" size="sm" className="gap-2">
+          <Type className="w-4 h-4" />
+          Font
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Font Template</DialogTitle>
+          <DialogDescription>
+            Unggah satu file TTF per ketebalan. Font dipilih di tema template dan ikut tertanam di PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[160px] space-y-2">
+            <Label htmlFor="font-family">Nama Font</Label>
+            <Input
+              id="font-family"
+              placeholder="Dari nama file bila kosong"
+              value={family}
+              onChange={(e) => setFamily(e.target.value)}
+            />
+          </div>
+          <div className="w-40 space-y-2">
+            <Label htmlFor="font-weight">Ketebalan</Label>
+            <Select value={weight} onValueChange={setWeight}>
+              <SelectTrigger id="font-weight">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FONT_WEIGHT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy !== null}
+          >
+            <Upload className="w-4 h-4" />
+            {busy === 'upload' ? 'Mengunggah...' : 'Pilih File TTF'}
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".ttf" className="hidden" onChange={handleFileSelect} />
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Memuat font...</div>
+        ) : fonts.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Belum ada font</div>
+        ) : (
+          <div className="max-h-80 overflow-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Font</TableHead>
+                  <TableHead className="w-24">Ketebalan</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...fonts]
+                  .sort((a, b) => a.family.localeCompare(b.family) || a.weight - b.weight)
+                  .map((font) => (
+                    <TableRow key={font.id}>
+                      <TableCell style={{ fontFamily: fontStackFor(font.family), fontWeight: font.weight }}>
+                        {font.family} Rp 12.500
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{font.weight}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Hapus font"
+                          disabled={busy !== null}
+                          onClick={() => handleDelete(font)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Bold, ImagePlus, Tag, Trash2, Type } from 'lucide-react';
+import { toast } from 'sonner';
+import { fontStackFor, registerUploadedFonts } from '@/lib/fontStorage';
+import {
+  BADGE_PRESETS,
+  DEFAULT_OVERLAY_FONT,
+  OVERLAY_IMAGE_TYPES,
+  PageOverlay,
+  createOverlay,
+  resolveOverlayFont,
+  uploadOverlayImage,
+} from '@/lib/pageOverlays';
+
+interface OverlayToolbarProps {
+  selected: PageOverlay | null;
+  onAdd: (overlay: PageOverlay) => void;
+  onUpdate: (changes: Partial<PageOverlay>) => void;
+  onRemove: () => void;
+}
+
+export const OverlayToolbar = ({ selected, onAdd, onUpdate, onRemove }: OverlayToolbarProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [fontOptions, setFontOptions] = useState([{ value: DEFAULT_OVERLAY_FONT, label: 'Inter' }]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Only fonts the PDF export can embed: Inter plus uploaded families
+  useEffect(() => {
+    registerUploadedFonts().then((fonts) => {
+      const families = [...new Set(fonts.map((font) => font.family))].sort();
+      setFontOptions([
+        { value: DEFAULT_OVERLAY_FONT, label: 'Inter' },
+        ...families.map((family) => ({ value: fontStackFor(family), label: family })),
+      ]);
+    });
+  }, []);
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!OVERLAY_IMAGE_TYPES.includes(file.type)) {
+      toast.error('Gambar harus berformat PNG, JPG atau WebP');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error('Ukuran file maksimal 5MB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      setIsUploading(true);
+      try {
+        const imageUrl = await uploadOverlayImage(event.target?.result as string);
+        onAdd(createOverlay('image', { imageUrl }));
+      } catch (error) {
+        console.error('Failed to upload overlay image:', error);
+        toast.error(error instanceof Error ? error.message : 'Gagal mengunggah gambar');
+      } finally {
+        setIsUploading(false);
+      }
+    };
+    reader.onerror = () => toast.error('Gagal membaca file');
+    reader.readAsDataURL(file);
+  };
+
+  const hasText = selected?.kind === 'text' || selected?.kind === 'badge';
+
+  return (
+    <div className="w-full max-w-[595px] space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onAdd(createOverlay('text'))}>
+          <Type className="w-3.5 h-3.5 mr-1" />
+          Teks
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 text-xs">
+              <Tag className="w-3.5 h-3.5 mr-1" />
+              Badge
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {BADGE_PRESETS.map((preset) => (
+              <DropdownMenuItem
+                key={preset.text}
+                onClick={() => onAdd(createOverlay('badge', {
+                  text: preset.text,
+                  fill: preset.fill,
+                  color: preset.color,
+                  fontSize: 22,
+                  fontFamily: DEFAULT_OVERLAY_FONT,
+                  bold: true,
+                }))}
+              >
+                <span className="w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: preset.fill }} />
+                {preset.text}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onAdd(createOverlay('arrow'))}>
+          <ArrowRight className="w-3.5 h-3.5 mr-1" />
+          Panah
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+        >
+          <ImagePlus className="w-3.5 h-3.5 mr-1" />
+          {isUploading ? 'Mengunggah...' : 'Gambar'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={OVERLAY_IMAGE_TYPES.join(',')}
+          onChange={handleImageSelect}
+          className="hidden"
+        />
+      </div>
+
+      {selected ? (
+        <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-border bg-card px-2 py-1.5">
+          {hasText ? (
+            <>
+              <Input
+                className="h-7 w-40 text-xs"
+                value={selected.text ?? ''}
+                onChange={(e) => onUpdate({ text: e.target.value })}
+                aria-label="Teks"
+              />
+              <Select value={resolveOverlayFont(selected.fontFamily)} onValueChange={(value) => onUpdate({ fontFamily: value })}>
+                <SelectTrigger className="h-7 w-28 text-xs" aria-label="Font">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontOptions.map((font) => (
+                    <SelectItem key={font.value} value={font.value}>
+                      {font.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="h-7 w-16 text-xs"
+                type="number"
+                min="8"
+                max="200"
+                value={selected.fontSize ?? 24}
+                onChange={(e) => {
+                  const size = Number(e.target.value);
+                  if (Number.isFinite(size) && size >= 8) onUpdate({ fontSize: Math.min(200, size) });
+                }}
+                aria-label="Ukuran font"
+              />
+              <Button
+                variant={selected.bold ? 'default' : 'outline'}
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onUpdate({ bold: !selected.bold })}
+                title="Tebal"
+              >
+                <Bold className="w-3.5 h-3.5" />
+              </Button>
+            </>
+          ) : null}
+          {selected.kind !== 'image' ? (
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              {selected.kind === 'arrow' ? 'Warna' : 'Teks'}
+              <input
+                type="color"
+                className="h-7 w-8 cursor-pointer rounded border border-border bg-transparent"
+                value={selected.color ?? '#111827'}
+                onChange={(e) => onUpdate({ color: e.target.value })}
+              />
+            </label>
+          ) : null}
+          {selected.kind === 'badge' ? (
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              Latar
+              <input
+                type="color"
+                className="h-7 w-8 cursor-pointer rounded border border-border bg-transparent"
+                value={selected.fill ?? '#dc2626'}
+                onChange={(e) => onUpdate({ fill: e.target.value })}
+              />
+            </label>
+          ) : null}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 ml-auto text-muted-foreground hover:text-destructive"
+            onClick={onRemove}
+            title="Hapus elemen"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
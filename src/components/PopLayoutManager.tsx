@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy, LayoutTemplate, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DEFAULT_POP_LAYOUT_ID, PopLayout } from '@/lib/popLayouts';
+import { popLayoutStorage } from '@/lib/popLayoutStorage';
+import { usePopLayouts } from '@/hooks/use-pop-layouts';
+
+const toJson = (layout: PopLayout) => JSON.stringify(layout, null, 2);
+
+const copyId = (id: string, taken: string[]) => {
+  let index = 2;
+  while (taken.includes(`${id}-${index}`)) index += 1;
+  return `${id}-${index}`;
+};
+
+/** Admin editor for the layout registry; the server validates each description before storing it. */
+export const PopLayoutManager = () => {
+  const layouts = usePopLayouts();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const selectLayout = (layout: PopLayout) => {
+    setSelectedId(layout.id);
+    setDraft(toJson(layout));
+  };
+
+  const handleDuplicate = (layout: PopLayout) => {
+    const id = copyId(layout.id, layouts.map((item) => item.id));
+    setSelectedId(null);
+    setDraft(toJson({ ...layout, id, label: `${layout.label} (salinan)` }));
+  };
+
+  const handleSave = async () => {
+    let layout: PopLayout;
+    try {
+      layout = JSON.parse(draft);
+    } catch {
+      toast.error('JSON layout tidak valid');
+      return;
+    }
+    if (selectedId && layout.id !== selectedId && !confirm(`Simpan sebagai layout baru "${layout.id}"?`)) return;
+
+    setBusy(true);
+    try {
+      const saved = await popLayoutStorage.saveLayout(layout);
+      selectLayout(saved);
+      toast.success(`Layout "${saved.label}" disimpan`);
+    } catch (error) {
+      console.error('Failed to save POP layout:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan layout POP');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (layout: PopLayout) => {
+    if (!confirm(`Hapus layout "${layout.label}"? Template dan produk yang memakainya kembali ke layout standar.`)) return;
+    setBusy(true);
+    try {
+      await popLayoutStorage.deleteLayout(layout.id);
+      if (selectedId === layout.id) {
+        setSelectedId(null);
+        setDraft('');
+      }
+      toast.success('Layout dihapus');
+    } catch (error) {
+      console.error('Failed to delete POP layout:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus layout POP');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setSelectedId(null);
+          setDraft('');
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="secondary" size="sm" className="gap-2">
+          <LayoutTemplate className="w-4 h-4" />
+          Layout POP
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Layout POP</DialogTitle>
+          <DialogDescription>
+            Setiap layout adalah daftar blok (image, brand, name, description, divider, price, discount, banner,
+            barcode) beserta tipografinya. Duplikat layout yang ada lalu ubah JSON-nya untuk membuat layout baru.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[220px_1fr] gap-3">
+          <div className="max-h-96 overflow-auto rounded-md border border-border divide-y divide-border">
+            {layouts.map((layout) => (
+              <div
+                key={layout.id}
+                className={`flex items-center gap-1 px-2 py-1.5 ${selectedId === layout.id ? 'bg-muted' : ''}`}
+              >
+                <button type="button" className="flex-1 min-w-0 text-left" onClick={() => selectLayout(layout)}>
+                  <div className="text-sm font-medium truncate">{layout.label}</div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">{layout.id}</div>
+                </button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Duplikat"
+                  disabled={busy}
+                  onClick={() => handleDuplicate(layout)}
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                </Button>
+                {layout.id !== DEFAULT_POP_LAYOUT_ID && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    title="Hapus layout"
+                    disabled={busy}
+                    onClick={() => handleDelete(layout)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Textarea
+              className="h-96 font-mono text-xs"
+              placeholder="Pilih atau duplikat layout di sebelah kiri"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+            />
+            <Button className="w-full" onClick={handleSave} disabled={busy || !draft.trim()}>
+              <Save className="w-4 h-4 mr-2" />
+              {busy ? 'Menyimpan...' : 'Simpan Layout'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
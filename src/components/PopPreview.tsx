@@ -1,9 +1,30 @@
-import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { Canvas as FabricCanvas, Rect, FabricText, Line, Group, FabricImage, Circle, Textbox, Gradient } from 'fabric';
-import { Product, CustomPriceOption, formatPrice } from '@/data/products';
-import { Template } from '@/data/templates';
+import { useEffect, useMemo, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { Canvas as FabricCanvas, Rect, FabricText, Line, Group, FabricImage, FabricObject, Path } from 'fabric';
+import { Product, getProductCopies } from '@/data/products';
+import { Template, getBrandDisplay, getTemplateKind } from '@/data/templates';
+import { CellOrigin, fromCellTransform, getQueueId, toCellTransform } from '@/lib/printQueue';
+import {
+  PageOverlay,
+  PageOverlays,
+  entryOverlayKey,
+  findOverlayKey,
+  getEntryOverlays,
+  getPageOverlays,
+  placeOverlay,
+  removeOverlay,
+  resolveOverlayFont,
+} from '@/lib/pageOverlays';
+import { OverlayToolbar } from './OverlayToolbar';
 import { PopSettingsState } from './PopSettings';
-import { Minus, Plus, ChevronUp } from 'lucide-react';
+import { encodeBarcode } from '@/lib/barcode';
+import { ensureFontFamily, primaryFontFamily } from '@/lib/fontStorage';
+import { loadCachedImage } from '@/lib/imageCache';
+import { drawPopItem, popElementKeys } from '@/lib/popBlocks';
+import { resolvePopLayout } from '@/lib/popLayouts';
+import { getPageDimensions } from '@/lib/paper';
+import { resolveZoneFrames, TemplateZoneKey, ZoneFrames } from '@/lib/templateZones';
+import { Minus, Plus, ChevronUp, Move, RotateCcw } from 'lucide-react';
+import { usePopLayouts } from '@/hooks/use-pop-layouts';
 
 interface PopPreviewProps {
   products: Product[];
@@ -13,27 +34,163 @@ interface PopPreviewProps {
   onScaleChange: (scale: number) => void;
   activeIndex?: number;
   onActiveIndexChange?: (index: number) => void;
+  itemTransforms: Record<string, PopItemTransform>;
+  /** Transforms are keyed by queue entry id */
+  onItemTransformChange: (queueId: string, transform: PopItemTransform) => void;
+  pageOverlays: PageOverlays;
+  onPageOverlaysChange: (overlays: PageOverlays) => void;
 }
 
 export interface PopPreviewHandle {
   getPageImages: () => Promise<string[]>;
+  /** Renders each page at 1pt = 1px and hands the canvas to `visit` before disposing it. */
+  renderPages: (visit: (canvas: FabricCanvas, pageIndex: number) => Promise<void> | void) => Promise<number>;
 }
 
-interface PopItemTransform {
-  left?: number;
-  top?: number;
+/** How far an element was dragged from its default spot, in unscaled POP units. */
+export interface PopElementOffset {
+  x: number;
+  y: number;
+}
+
+export interface PopItemTransform {
+  /** Group position from the top-left of its cell; every copy of the entry sits the same way in its own cell */
+  x?: number;
+  y?: number;
   scaleX?: number;
   scaleY?: number;
   angle?: number;
+  /** Elements moved on their own inside the POP */
+  elements?: Partial<Record<TemplateZoneKey, PopElementOffset>>;
 }
 
-// A4 dimensions at 72 DPI
+// A4 portrait at 72 DPI: the reference page the POP font sizes were tuned for
 const A4_WIDTH = 595;
 const A4_HEIGHT = 842;
 
 // Scale factor for high-resolution PDF/Print export (3x = 216 DPI)
 export const PRINT_SCALE = 3;
 
+// Top-left corner of cell `index` on a page split into `cols` columns
+const getCellOrigin = (index: number, cols: number, cellWidth: number, cellHeight: number): CellOrigin => ({
+  x: (index % cols) * cellWidth,
+  y: Math.floor(index / cols) * cellHeight,
+});
+
+// Grid used to pack POPs on a page: 2 = half sheets, 4 = quarter sheets
+const getLayoutGrid = (layout: PopSettingsState['layout'], isLandscape = false) => {
+  if (layout === '4') return { cols: 2, rows: 2 };
+  if (layout === '2') return isLandscape ? { cols: 2, rows: 1 } : { cols: 1, rows: 2 };
+  return { cols: 1, rows: 1 };
+};
+
+// Scales POP content so a cell on any paper keeps the proportions of its A4 counterpart
+const getCellScale = (layout: PopSettingsState['layout'], itemWidth: number, itemHeight: number) => {
+  const reference = getLayoutGrid(layout);
+  return Math.min(
+    itemWidth / (A4_WIDTH / reference.cols),
+    itemHeight / (A4_HEIGHT / reference.rows)
+  );
+};
+
+// Maps each rendered POP group back to its queue entry and cell so canvas edits can be persisted
+const popItemCells = new WeakMap<FabricObject, { queueId: string; cell: CellOrigin }>();
+// Where an element was placed when rendered, so a drag can be stored as an offset
+const popElementOrigins = new WeakMap<
+  FabricObject,
+  { queueId: string; key: TemplateZoneKey; left: number; top: number; offset: PopElementOffset }
+>();
+
+// Scales a template image to cover one cell and clips the overflow
+const fitTemplateImage = (img: FabricImage, x: number, y: number, width: number, height: number) => {
+  const scale = Math.max(width / (img.width || width), height / (img.height || height));
+  const scaledWidth = (img.width || width) * scale;
+  const scaledHeight = (img.height || height) * scale;
+  img.set({
+    left: x + (width - scaledWidth) / 2,
+    top: y + (height - scaledHeight) / 2,
+    scaleX: scale,
+    scaleY: scale,
+    selectable: false,
+    evented: false,
+    clipPath: new Rect({ left: x, top: y, width, height, absolutePositioned: true }),
+  });
+};
+
+// Maps overlay objects back to their overlay id
+const popOverlayIds = new WeakMap<FabricObject, string>();
+
+/** An overlay as drawn on a page; an entry's overlays are drawn once per cell of that entry. */
+interface PlacedOverlay {
+  overlay: PageOverlay;
+  cell: CellOrigin;
+}
+
+type OverlayPlacement = Pick<PageOverlay, 'left' | 'top' | 'scaleX' | 'scaleY' | 'angle'>;
+
+const OVERLAY_IMAGE_SIZE = 200;
+const OVERLAY_ARROW_PATH = 'M 0 18 L 90 18 L 90 0 L 130 30 L 90 60 L 90 42 L 0 42 Z';
+
+/** Builds the Fabric object for an overlay; every kind is a group so it moves and scales as one. */
+const createOverlayObject = async ({ overlay, cell }: PlacedOverlay): Promise<Group | null> => {
+  const children: FabricObject[] = [];
+  const fontWeight = overlay.bold ? '800' : '500';
+  const fontFamily = resolveOverlayFont(overlay.fontFamily);
+
+  if (overlay.kind === 'text') {
+    children.push(new FabricText(overlay.text || ' ', {
+      fontSize: overlay.fontSize ?? 24,
+      fontFamily,
+      fontWeight,
+      fill: overlay.color ?? '#111827',
+    }));
+  } else if (overlay.kind === 'badge') {
+    const fontSize = overlay.fontSize ?? 22;
+    const label = new FabricText(overlay.text || ' ', {
+      fontSize,
+      fontFamily,
+      fontWeight,
+      fill: overlay.color ?? '#ffffff',
+      originX: 'center',
+      originY: 'center',
+    });
+    const paddingX = fontSize * 0.8;
+    const paddingY = fontSize * 0.45;
+    const width = label.width + paddingX * 2;
+    const height = label.height + paddingY * 2;
+    children.push(new Rect({
+      left: 0,
+      top: 0,
+      width,
+      height,
+      rx: height / 2,
+      ry: height / 2,
+      fill: overlay.fill ?? '#dc2626',
+    }));
+    label.set({ left: width / 2, top: height / 2 });
+    children.push(label);
+  } else if (overlay.kind === 'arrow') {
+    children.push(new Path(OVERLAY_ARROW_PATH, { fill: overlay.color ?? '#dc2626' }));
+  } else if (overlay.imageUrl) {
+    const image = await loadCachedImage(overlay.imageUrl);
+    if (!image) return null;
+    const fit = Math.min(1, OVERLAY_IMAGE_SIZE / Math.max(image.width || 1, image.height || 1));
+    image.set({ left: 0, top: 0, scaleX: fit, scaleY: fit });
+    children.push(image);
+  }
+  if (children.length === 0) return null;
+
+  const group = new Group(children, {
+    left: cell.x + overlay.left,
+    top: cell.y + overlay.top,
+    scaleX: overlay.scaleX ?? 1,
+    scaleY: overlay.scaleY ?? 1,
+    angle: overlay.angle ?? 0,
+  });
+  popOverlayIds.set(group, overlay.id);
+  return group;
+};
+
 export const PopPreview = forwardRef<PopPreviewHandle, PopPreviewProps>(({
   products,
   settings,
@@ -42,778 +199,373 @@ export const PopPreview = forwardRef<PopPreviewHandle, PopPreviewProps>(({
   onScaleChange,
   activeIndex,
   onActiveIndexChange,
+  itemTransforms,
+  onItemTransformChange,
+  pageOverlays,
+  onPageOverlaysChange,
 }, ref) => {
   const zoomIn = () => onScaleChange(Math.min(previewScale + 0.25, 2));
   const zoomOut = () => onScaleChange(Math.max(previewScale - 0.25, 0.5));
   const resetZoom = () => onScaleChange(1);
-  const [itemTransforms, setItemTransforms] = useState<Record<string, PopItemTransform>>({});
-
-  const drawBarcode = useCallback((x: number, y: number, width: number, code: string): Group => {
-    const barWidth = width / 40;
-    const barHeight = 40;
-    const objects: (Rect | FabricText)[] = [];
-
-    for (let i = 0; i < 35; i++) {
-      const isBar = Math.random() > 0.4;
-      if (isBar) {
-        objects.push(new Rect({
-          left: x + i * barWidth,
-          top: y,
-          width: barWidth * 0.8,
-          height: barHeight,
-          fill: '#000000',
-        }));
-      }
-    }
 
-    return new Group(objects);
-  }, []);
+  const templateKind = getTemplateKind(selectedTemplateData);
+  // Theme and sticker templates print the artwork only
+  const queueProducts = useMemo(
+    () => (templateKind === 'product' ? products : []),
+    [products, templateKind]
+  );
 
-  const drawPOPItem = useCallback(async (
-    product: Product,
-    x: number,
-    y: number,
-    itemWidth: number,
-    itemHeight: number,
-    settings: PopSettingsState,
-    hasCustomTemplate: boolean = false
-  ): Promise<Group> => {
-    const objects: (Rect | FabricText | Line | Group | FabricImage | Circle)[] = [];
-    const centerX = x + itemWidth / 2;
-    const baseScale = 1.05;
-    const groupScale = (settings.layout === '4' ? 1.1 : settings.layout === '2' ? 1.16 : 1.22) * baseScale;
-    const startY = y + itemHeight * 0.3;
-    let currentY = startY;
-    const contentWidth = itemWidth * (settings.layout === '4' ? 0.74 : settings.layout === '2' ? 0.84 : 0.88);
-    const fitTextToLines = (text: string, maxLines: number, box: Textbox, baseSize: number) => {
-      const measureLines = () =>
-        (box.textLines ?? (box as { _textLines?: string[] })._textLines ?? []).length;
-
-      box.set({ text, fontSize: baseSize });
-      box.initDimensions();
-      if (measureLines() <= maxLines) return;
-
-      let size = baseSize;
-      const minSize = Math.max(12, baseSize * 0.7);
-      while (size > minSize) {
-        size -= 1;
-        box.set({ fontSize: size });
-        box.initDimensions();
-        if (measureLines() <= maxLines) return;
+  // Every copy of an entry takes its own cell; slotStarts/slotOwners map between entries and cells
+  const { layoutProducts, slotStarts, slotOwners } = useMemo(() => {
+    const cells: Product[] = [];
+    const starts: number[] = [];
+    const owners: number[] = [];
+    queueProducts.forEach((product, index) => {
+      starts.push(cells.length);
+      for (let copy = 0; copy < getProductCopies(product); copy += 1) {
+        cells.push(product);
+        owners.push(index);
       }
-    };
-    const fitTextToWidth = (text: string, maxWidth: number, baseSize: number, minSize: number) => {
-      const measure = (size: number) => {
-        const temp = new FabricText(text, {
-          fontSize: size,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '700',
-        });
-        return temp.getScaledWidth?.() ?? temp.width ?? 0;
-      };
+    });
+    return { layoutProducts: cells, slotStarts: starts, slotOwners: owners };
+  }, [queueProducts]);
+
+  const barcodeIssues = useMemo(() => {
+    if (!settings.showBarcode) return [];
+    return queueProducts.flatMap((product) => {
+      if (product.isCustom) return [];
+      const result = encodeBarcode(product.barcode);
+      return result.barcode
+        ? []
+        : [{ queueId: getQueueId(product), sku: product.sku, name: product.name, error: result.error }];
+    });
+  }, [queueProducts, settings.showBarcode]);
 
-      let size = baseSize;
-      while (size > minSize && measure(size) > maxWidth) {
-        size -= 1;
-      }
-      return size;
-    };
+  const page = useMemo(
+    () => getPageDimensions(settings),
+    [settings]
+  );
+  // A theme covers the whole page whatever layout is selected
+  const { cols, rows } = templateKind === 'theme'
+    ? { cols: 1, rows: 1 }
+    : getLayoutGrid(settings.layout, page.width > page.height);
+  const itemsPerPage = cols * rows;
+  const cellWidth = page.width / cols;
+  const cellHeight = page.height / rows;
+  const totalPages = Math.max(Math.ceil(layoutProducts.length / itemsPerPage), 1);
+  const [currentPage, setCurrentPage] = useState(0);
+  // Element mode lets brand, price, barcode etc. be dragged one by one instead of the whole POP
+  const [editElements, setEditElements] = useState(false);
+  const activeEntry = activeIndex !== undefined ? queueProducts[activeIndex] : undefined;
+  const activeEntryId = activeEntry ? getQueueId(activeEntry) : undefined;
+  const activeHasOffsets = Boolean(activeEntryId && itemTransforms[activeEntryId]?.elements);
+
+  const handleElementMove = useCallback((queueId: string, key: TemplateZoneKey, offset: PopElementOffset) => {
+    onItemTransformChange(queueId, { elements: { ...itemTransforms[queueId]?.elements, [key]: offset } });
+  }, [itemTransforms, onItemTransformChange]);
+
+  const resetActiveElements = useCallback(() => {
+    if (!activeEntryId) return;
+    onItemTransformChange(activeEntryId, { elements: undefined });
+  }, [activeEntryId, onItemTransformChange]);
+  const activeStart = activeIndex !== undefined ? slotStarts[activeIndex] : undefined;
+  const activeCopies = activeIndex !== undefined && queueProducts[activeIndex]
+    ? getProductCopies(queueProducts[activeIndex])
+    : 0;
+
+  // Follow the selected entry unless one of its copies is already on the visible page
+  useEffect(() => {
+    if (activeStart === undefined) return;
+    setCurrentPage((prev) => {
+      const pageStart = prev * itemsPerPage;
+      const isVisible = activeStart < pageStart + itemsPerPage && activeStart + activeCopies > pageStart;
+      return isVisible ? prev : Math.floor(activeStart / itemsPerPage);
+    });
+  }, [activeCopies, activeStart, itemsPerPage]);
 
-    // Background (only for default templates)
-    if (!hasCustomTemplate) {
-      objects.push(new Rect({
-        left: x,
-        top: y,
-        width: itemWidth,
-        height: itemHeight,
-        fill: '#ffffff',
-        stroke: '#e5e7eb',
-        strokeWidth: 1,
-      }));
+  const setPage = useCallback((nextPage: number) => {
+    const clamped = Math.max(0, Math.min(totalPages - 1, nextPage));
+    setCurrentPage(clamped);
+    const owner = slotOwners[clamped * itemsPerPage];
+    if (owner !== undefined) {
+      onActiveIndexChange?.(owner);
     }
+  }, [itemsPerPage, onActiveIndexChange, slotOwners, totalPages]);
 
-    // Brand (optional) without logo badge
-    const brandLabel = product.brandSegment || product.brand;
-    if (brandLabel) {
-      const brandSize = (settings.layout === '4' ? 36 : settings.layout === '2' ? 39 : 42) * groupScale;
-      const brandFontSize = fitTextToWidth(
-        brandLabel,
-        contentWidth,
-        brandSize,
-        Math.max(14, brandSize * 0.65)
-      );
-
-      objects.push(new FabricText(brandLabel, {
-        left: centerX,
-        top: currentY,
-        fontSize: brandFontSize,
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '700',
-        fill: '#374151',
-        originX: 'center',
-        originY: 'center',
-      }));
-      currentY += brandFontSize + 10 * groupScale;
+  useEffect(() => {
+    if (currentPage > totalPages - 1) {
+      setPage(Math.max(0, totalPages - 1));
     }
+  }, [currentPage, setPage, totalPages]);
 
-    const baseDiscount = product.discount ?? 0;
-    const disc2Raw = product.extraDiscount ?? product.disc2 ?? 0;
-    const disc3Raw = product.disc3 ?? 0;
-    const rawDisc4 = product.memberDiscount ?? 0;
-    const isDisc4MemberValue = rawDisc4 === 2 || rawDisc4 === 3;
-    const useDisc4AsMember = product.isCustom ? rawDisc4 > 0 : isDisc4MemberValue;
-    const memberRaw = useDisc4AsMember ? rawDisc4 : 0;
-    const disc4AsDiscountRaw = useDisc4AsMember ? 0 : rawDisc4;
-    const discountAmount = product.discountAmount ?? 0;
-    const priceRows: CustomPriceOption[] = (
-      product.customPriceOptions && product.customPriceOptions.length > 0
-        ? product.customPriceOptions
-        : [{ uom: product.uom, normalPrice: product.normalPrice, promoPrice: product.promoPrice }]
-    ).filter((row) => (row.normalPrice ?? 0) > 0 || (row.promoPrice ?? 0) > 0);
-    const primaryPrice = priceRows[0] ?? {
-      uom: product.uom,
-      normalPrice: product.normalPrice,
-      promoPrice: product.promoPrice,
-    };
-    const hasAnyDiscount =
-      baseDiscount > 0 || disc2Raw > 0 || disc3Raw > 0 || disc4AsDiscountRaw > 0 || memberRaw > 0 || discountAmount > 0;
-    const hasNoPrice = priceRows.length === 0;
-    const isDiscountOnly = hasAnyDiscount && hasNoPrice;
-
-    // Product Name
-    const nameBaseSize = (settings.layout === '4' ? 11 : settings.layout === '2' ? 15 : 19) * groupScale;
-    const nameSize = hasAnyDiscount ? nameBaseSize : nameBaseSize * 1.15;
-    const nameBox = new Textbox(product.name, {
-      left: centerX,
-      top: currentY,
-      width: contentWidth,
-      fontSize: nameSize,
-      fontFamily: 'Inter, sans-serif',
-      fontWeight: '700',
-      fill: '#111827',
-      textAlign: 'center',
-      originX: 'center',
-      originY: 'top',
-    });
-    fitTextToLines(product.name, hasAnyDiscount ? 1 : 2, nameBox, nameSize);
-    objects.push(nameBox);
-    const nameHeight = Math.max(nameSize, nameBox.getScaledHeight?.() ?? nameBox.height ?? nameSize);
-    currentY += nameHeight + 6 * groupScale;
-
-    // Description (optional)
-    const descText = product.descSegment || product.description;
-    if (descText) {
-      const descSize = (settings.layout === '4' ? 12 : settings.layout === '2' ? 14 : 16) * groupScale;
-      const descBox = new Textbox(descText, {
-        left: centerX,
-        top: currentY,
-        width: contentWidth,
-        fontSize: descSize,
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '500',
-        fill: '#6b7280',
-        textAlign: 'center',
-        originX: 'center',
-        originY: 'top',
-      });
-      objects.push(descBox);
-      const descHeight = Math.max(descSize, descBox.getScaledHeight?.() ?? descBox.height ?? descSize);
-      currentY += descHeight + 10 * groupScale;
-    } else {
-      currentY += 6 * groupScale;
+  const getPageProducts = useCallback((page: number) => (
+    layoutProducts.slice(page * itemsPerPage, (page + 1) * itemsPerPage)
+  ), [itemsPerPage, layoutProducts]);
+
+  const currentPageProducts = useMemo(
+    () => getPageProducts(currentPage),
+    [currentPage, getPageProducts]
+  );
+
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  // Pages redraw when the layout registry loads or an admin edits a layout
+  const popLayouts = usePopLayouts();
+
+  const getPlacedOverlays = useCallback((pageIndex: number): PlacedOverlay[] => [
+    ...getPageOverlays(pageOverlays, pageIndex).map((overlay) => ({ overlay, cell: { x: 0, y: 0 } })),
+    ...getPageProducts(pageIndex).flatMap((product, index) => {
+      const cell = getCellOrigin(index, cols, cellWidth, cellHeight);
+      return getEntryOverlays(pageOverlays, getQueueId(product)).map((overlay) => ({ overlay, cell }));
+    }),
+  ], [cellHeight, cellWidth, cols, getPageProducts, pageOverlays]);
+
+  const currentOverlays = useMemo(
+    () => getPlacedOverlays(currentPage),
+    [currentPage, getPlacedOverlays]
+  );
+  const selectedOverlay = currentOverlays.find(({ overlay }) => overlay.id === selectedOverlayId)?.overlay ?? null;
+
+  // The POP under `point` owns the overlay; an empty cell falls back to the first POP on the page
+  const anchorAt = useCallback((point: { x: number; y: number }) => {
+    const col = Math.min(cols - 1, Math.max(0, Math.floor(point.x / cellWidth)));
+    const row = Math.min(rows - 1, Math.max(0, Math.floor(point.y / cellHeight)));
+    const index = currentPageProducts[row * cols + col] ? row * cols + col : 0;
+    const product = currentPageProducts[index];
+    if (!product) {
+      return { key: String(currentPage), cell: { x: 0, y: 0 } };
     }
+    return { key: entryOverlayKey(getQueueId(product)), cell: getCellOrigin(index, cols, cellWidth, cellHeight) };
+  }, [cellHeight, cellWidth, cols, currentPage, currentPageProducts, rows]);
+
+  // `placement` is in page units; it is stored relative to the cell of the POP under `point`
+  const placeOverlayAt = useCallback((
+    overlay: PageOverlay,
+    placement: OverlayPlacement,
+    point: { x: number; y: number }
+  ) => {
+    const { key, cell } = anchorAt(point);
+    onPageOverlaysChange(placeOverlay(pageOverlays, key, {
+      ...overlay,
+      ...placement,
+      left: placement.left - cell.x,
+      top: placement.top - cell.y,
+    }));
+  }, [anchorAt, onPageOverlaysChange, pageOverlays]);
+
+  const addOverlay = (overlay: PageOverlay) => {
+    placeOverlayAt(overlay, overlay, { x: overlay.left, y: overlay.top });
+    setSelectedOverlayId(overlay.id);
+  };
+
+  const updateOverlay = useCallback((id: string, changes: Partial<PageOverlay>) => {
+    const key = findOverlayKey(pageOverlays, id);
+    const overlay = key ? pageOverlays[key].find((item) => item.id === id) : undefined;
+    if (!key || !overlay) return;
+    onPageOverlaysChange(placeOverlay(pageOverlays, key, { ...overlay, ...changes }));
+  }, [onPageOverlaysChange, pageOverlays]);
+
+  const moveOverlay = useCallback((id: string, placement: OverlayPlacement, center: { x: number; y: number }) => {
+    const placed = currentOverlays.find(({ overlay }) => overlay.id === id);
+    if (placed) {
+      placeOverlayAt(placed.overlay, placement, center);
+    }
+  }, [currentOverlays, placeOverlayAt]);
 
-    // Divider
-    const dividerWidth = contentWidth * 0.9;
-    objects.push(new Line(
-      [centerX - dividerWidth / 2, currentY, centerX + dividerWidth / 2, currentY],
-      { stroke: '#e5e7eb', strokeWidth: 1 },
-    ));
-    currentY += (priceRows.length > 1 ? 4 : 10) * groupScale;
-
-    // Discount badge removed (center)
-
-    const priceSize = (settings.layout === '4' ? 50 : settings.layout === '2' ? 62 : 78) * groupScale;
-    const graniteLabel = `${product.descSegment || ''} ${product.description || ''}`.toUpperCase();
-    const isGranite = graniteLabel.includes('GRANIT');
-    const meterBase = Number(product.basePricePerMeter);
-    const meterFinal = Number(product.finalPricePerMeter);
-    const hasMeterPrice = Number.isFinite(meterFinal) && Number.isFinite(meterBase);
-
-    const renderStrikePrice = (
-      price: number,
-      uomLabel: string | undefined,
-      alignX: number,
-      scale = 1,
-      gapScale = 1
-    ) => {
-      if (!settings.showStrikePrice || !price) return 0;
-      const strikeFontSize = (settings.layout === '4' ? 18 : settings.layout === '2' ? 20 : 22) * groupScale * scale;
-      const strikeText = new FabricText(`Rp ${formatPrice(price)}`, {
-        left: alignX,
-        top: currentY,
-        fontSize: strikeFontSize,
-        fontFamily: 'Inter, sans-serif',
-        fill: '#dc2626',
-        originX: 'center',
-        originY: 'top',
-      });
-      objects.push(strikeText);
-      const strikeWidth = strikeText.getScaledWidth?.() ?? strikeText.width ?? 0;
-      if (uomLabel) {
-        objects.push(new FabricText(`/${uomLabel}`, {
-          left: alignX + strikeWidth / 2 + 6 * groupScale,
-          top: currentY + strikeFontSize * 0.1,
-          fontSize: Math.max(10, strikeFontSize * 0.7),
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '600',
-          fill: '#6b7280',
-          originX: 'left',
-          originY: 'top',
-        }));
-      }
+  const removeSelectedOverlay = () => {
+    if (!selectedOverlayId) return;
+    onPageOverlaysChange(removeOverlay(pageOverlays, selectedOverlayId));
+    setSelectedOverlayId(null);
+  };
 
-      const lineWidth = strikeWidth + (uomLabel ? 18 * groupScale * scale : 0);
-      objects.push(new Line([alignX - lineWidth / 2, currentY + strikeFontSize / 2, alignX + lineWidth / 2, currentY + strikeFontSize / 2], {
-        stroke: '#dc2626',
-        strokeWidth: 2,
-      }));
-      return strikeFontSize + 10 * groupScale * gapScale;
-    };
+  const renderPageCanvas = useCallback(async (
+    canvas: FabricCanvas,
+    pageProducts: Product[],
+    overlays: PlacedOverlay[] = []
+  ) => {
+    // Text is measured while the POP is laid out, so theme and overlay fonts must be loaded first
+    const fontFamilies = new Set([
+      selectedTemplateData.theme?.fontFamily,
+      ...overlays.map(({ overlay }) => primaryFontFamily(overlay.fontFamily)),
+    ]);
+    await Promise.all([...fontFamilies].map((family) => ensureFontFamily(family)));
+    canvas.clear();
+    canvas.backgroundColor = '#ffffff';
 
-    const renderPriceBlock = (
-      price: number,
-      uomLabel: string | undefined,
-      alignX: number,
-      topY: number,
-      scale = 1,
-      maxWidth?: number
+    const itemWidth = page.width / cols;
+    const itemHeight = page.height / rows;
+    // An empty page still shows the template (theme and sticker templates never have products)
+    const cellCount = pageProducts.length > 0 ? pageProducts.length : itemsPerPage;
+    const cells = Array.from({ length: cellCount }, (_, index) => ({
+      product: pageProducts[index],
+      ...getCellOrigin(index, cols, itemWidth, itemHeight),
+    }));
+
+    const addPopGroup = async (
+      product: Product,
+      x: number,
+      y: number,
+      hasCustomTemplate: boolean,
+      zoneFrames?: ZoneFrames
     ) => {
-      const formattedPrice = formatPrice(price);
-      const splitIndex = formattedPrice.lastIndexOf('.');
-      const mainPrice = splitIndex > -1 ? formattedPrice.slice(0, splitIndex) : formattedPrice;
-      const tailDigits = splitIndex > -1 ? formattedPrice.slice(splitIndex + 1) : '';
-
-      const measureWidth = (sizeScale: number) => {
-        const localPrice = priceSize * sizeScale;
-        const localCurrency = Math.max(12, localPrice * 0.4);
-        const localUomSize = Math.max(10, localPrice * 0.22);
-        const gapMain = 6 * groupScale * sizeScale;
-        const gapTail = tailDigits ? 4 * groupScale * sizeScale : 0;
-        const currencyMeasure = new FabricText('Rp.', {
-          fontSize: localCurrency,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '700',
-        });
-        const promoMeasure = new FabricText(mainPrice, {
-          fontSize: localPrice,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '900',
-        });
-        const tailMeasure = tailDigits
-          ? new FabricText(`.${tailDigits}`, {
-            fontSize: Math.max(10, localPrice * 0.35),
-            fontFamily: 'Inter, sans-serif',
-            fontWeight: '800',
-          })
-          : null;
-        const uomMeasure = uomLabel
-          ? new FabricText(`/${uomLabel}`, {
-            fontSize: localUomSize,
-            fontFamily: 'Inter, sans-serif',
-            fontWeight: '600',
-          })
-          : null;
-
-        const currencyWidth = currencyMeasure.getScaledWidth?.() ?? currencyMeasure.width ?? 0;
-        const promoWidth = promoMeasure.getScaledWidth?.() ?? promoMeasure.width ?? 0;
-        const tailWidth = tailMeasure?.getScaledWidth?.() ?? tailMeasure?.width ?? 0;
-        const uomWidth = uomMeasure?.getScaledWidth?.() ?? uomMeasure?.width ?? 0;
-        const rightWidth = Math.max(tailWidth, uomWidth);
-        return currencyWidth + gapMain + promoWidth + gapTail + rightWidth;
-      };
-
-      let sizeScale = scale;
-      if (maxWidth) {
-        const minScale = 0.6;
-        while (sizeScale > minScale && measureWidth(sizeScale) > maxWidth) {
-          sizeScale = Math.max(minScale, sizeScale - 0.04);
-        }
-      }
-
-      const localPriceSize = priceSize * sizeScale;
-      const localCurrencySize = Math.max(12, localPriceSize * 0.4);
-
-      const currencyText = new FabricText('Rp.', {
-        left: alignX,
-        top: topY + localPriceSize * 0.12,
-        fontSize: localCurrencySize,
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '700',
-        fill: '#0284c7',
-        originX: 'left',
-        originY: 'top',
-      });
-      const currencyWidth = currencyText.getScaledWidth?.() ?? currencyText.width ?? 0;
-
-      const promoText = new FabricText(mainPrice, {
-        left: alignX,
-        top: topY,
-        fontSize: localPriceSize,
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '900',
-        fill: '#0284c7',
-        originX: 'left',
-        originY: 'top',
+      const popGroup = await drawPopItem({
+        product,
+        x,
+        y,
+        width: itemWidth,
+        height: itemHeight,
+        settings,
+        layout: resolvePopLayout(product.popLayout, selectedTemplateData.popLayout, popLayouts),
+        theme: selectedTemplateData.theme,
+        cellScale: getCellScale(settings.layout, itemWidth, itemHeight),
+        hasCustomTemplate,
+        zoneFrames,
+        brandDisplay: getBrandDisplay(selectedTemplateData),
       });
-      const promoWidth = promoText.getScaledWidth?.() ?? promoText.width ?? 0;
-
-      let tailTop = topY;
-      let tailHeight = 0;
-      let tailWidth = 0;
-      let tailText: FabricText | null = null;
-      if (tailDigits) {
-        const tailSize = Math.max(10, localPriceSize * 0.35);
-        tailText = new FabricText(`.${tailDigits}`, {
-          left: alignX,
-          top: topY + localPriceSize * 0.08,
-          fontSize: tailSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '800',
-          fill: '#0284c7',
-          originX: 'left',
-          originY: 'top',
+      const queueId = getQueueId(product);
+      const transform = itemTransforms[queueId];
+      const elementOffsets = transform?.elements;
+      // Offsets apply in the group's own plane, before its saved move/scale
+      popGroup.getObjects().forEach((child) => {
+        const key = popElementKeys.get(child);
+        if (!key) {
+          if (editElements) child.set({ selectable: false, evented: false });
+          return;
+        }
+        const offset = elementOffsets?.[key] ?? { x: 0, y: 0 };
+        child.set({
+          left: child.left + offset.x,
+          top: child.top + offset.y,
+          hasControls: false,
+          lockRotation: true,
+          lockScalingX: true,
+          lockScalingY: true,
+          hoverCursor: 'move',
         });
-        tailTop = tailText.top ?? tailTop;
-        tailHeight = tailText.getScaledHeight?.() ?? tailText.height ?? tailSize;
-        tailWidth = tailText.getScaledWidth?.() ?? tailText.width ?? 0;
-      }
-
-      const gapMain = 6 * groupScale * sizeScale;
-      const gapTail = tailDigits ? 4 * groupScale * sizeScale : 0;
-      const totalWidth = currencyWidth + gapMain + promoWidth + gapTail + (tailDigits ? tailWidth : 0);
-      const startX = alignX - totalWidth / 2;
-
-      currencyText.set({ left: startX });
-      promoText.set({ left: startX + currencyWidth + gapMain });
-      if (tailText) {
-        tailText.set({ left: startX + currencyWidth + gapMain + promoWidth + gapTail });
-      }
-
-      objects.push(currencyText);
-      objects.push(promoText);
-      if (tailText) {
-        objects.push(tailText);
+        child.setCoords();
+        popElementOrigins.set(child, { queueId, key, left: child.left, top: child.top, offset });
+      });
+      if (editElements) {
+        popGroup.set({ interactive: true, subTargetCheck: true });
       }
-
-      if (uomLabel) {
-        const uomSize = Math.max(10, localPriceSize * 0.22);
-        const uomLeft = startX + currencyWidth + gapMain + promoWidth + gapTail;
-        const uomTop = tailDigits ? tailTop + tailHeight + 1 * groupScale : topY + localPriceSize * 0.35;
-        objects.push(new FabricText(`/${uomLabel}`, {
-          left: uomLeft,
-          top: uomTop,
-          fontSize: uomSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '600',
-          fill: '#0284c7',
-          originX: 'left',
-          originY: 'top',
-        }));
+      const groupTransform = fromCellTransform({ x, y }, transform);
+      if (Object.keys(groupTransform).length > 0) {
+        popGroup.set(groupTransform);
+        popGroup.setCoords();
       }
-
-      const promoHeight = promoText.getScaledHeight?.() ?? promoText.height ?? localPriceSize;
-      return Math.max(promoHeight, tailTop - topY + tailHeight);
+      popItemCells.set(popGroup, { queueId, cell: { x, y } });
+      canvas.add(popGroup);
     };
 
-    if (!isDiscountOnly && isGranite && hasMeterPrice && priceRows.length <= 1) {
-      const graniteBaseScale = settings.layout === '4' ? 1 : settings.layout === '2' ? 1.06 : 1.12;
-      const graniteScale = hasAnyDiscount ? graniteBaseScale : graniteBaseScale * 1.12;
-      const columnGap = Math.max(20 * groupScale, contentWidth * 0.1);
-      const columnWidth = (contentWidth - columnGap) / 2;
-      const leftCenter = centerX - (columnWidth / 2 + columnGap / 2);
-      const rightCenter = centerX + (columnWidth / 2 + columnGap / 2);
-      const strikeScale = graniteScale * 0.9;
-      if (hasAnyDiscount) {
-        const leftStrikeHeight = renderStrikePrice(primaryPrice.normalPrice, primaryPrice.uom, leftCenter, strikeScale);
-        const rightStrikeHeight = renderStrikePrice(meterBase, 'Mtr', rightCenter, strikeScale);
-        currentY += Math.max(leftStrikeHeight, rightStrikeHeight);
+    const addCutMarks = () => {
+      if (itemsPerPage <= 1) return;
+      const guides: number[][] = [];
+      for (let col = 1; col < cols; col++) {
+        guides.push([col * itemWidth, 0, col * itemWidth, page.height]);
       }
-
-      const leftHeight = renderPriceBlock(primaryPrice.promoPrice, primaryPrice.uom, leftCenter, currentY, graniteScale, columnWidth);
-      const rightHeight = renderPriceBlock(meterFinal, 'Mtr', rightCenter, currentY, graniteScale, columnWidth);
-      currentY += Math.max(leftHeight, rightHeight) + 10 * groupScale;
-    } else if (!isDiscountOnly) {
-      if (priceRows.length > 1) {
-        const rowScale = priceRows.length >= 3 ? 0.58 : 0.72;
-        const strikeScale = rowScale * 0.48;
-        const rowGap = 3 * groupScale;
-        const separatorGap = 3 * groupScale;
-        priceRows.forEach((row, index) => {
-          const effectivePromo = row.promoPrice > 0 ? row.promoPrice : row.normalPrice;
-          const hasStrike = settings.showStrikePrice && row.normalPrice > 0 && row.normalPrice > effectivePromo;
-          if (hasStrike) {
-            const strikeHeight = renderStrikePrice(row.normalPrice, row.uom, centerX, strikeScale, 0.4);
-            currentY += strikeHeight;
-          }
-          const promoHeight = renderPriceBlock(
-            effectivePromo,
-            row.uom,
-            centerX,
-            currentY,
-            rowScale,
-            contentWidth * 0.9
-          );
-          currentY += promoHeight + rowGap;
-          if (index < priceRows.length - 1) {
-            const separatorWidth = contentWidth * 0.86;
-            objects.push(new Line(
-              [centerX - separatorWidth / 2, currentY, centerX + separatorWidth / 2, currentY],
-              { stroke: '#e5e7eb', strokeWidth: 1 },
-            ));
-            currentY += separatorGap;
-          }
-        });
-      } else {
-        if (hasAnyDiscount) {
-          const strikeHeight = renderStrikePrice(primaryPrice.normalPrice, primaryPrice.uom, centerX);
-          currentY += strikeHeight;
-        }
-
-        const nonGraniteScale = hasAnyDiscount ? 1.45 : 1.65;
-        const promoHeight = renderPriceBlock(primaryPrice.promoPrice, primaryPrice.uom, centerX, currentY, nonGraniteScale, contentWidth);
-        currentY += promoHeight + 10 * groupScale;
+      for (let row = 1; row < rows; row++) {
+        guides.push([0, row * itemHeight, page.width, row * itemHeight]);
       }
-    }
-
-    // Bottom discount badge
-    const cutValue =
-      product.discountType === 'cut'
-        ? discountAmount
-        : baseDiscount > 100
-          ? baseDiscount
-          : 0;
-    if (cutValue > 0) {
-      const rowWidth = isDiscountOnly ? contentWidth : contentWidth * 0.6;
-      const rowHeight = (settings.layout === '4' ? 70 : settings.layout === '2' ? 84 : 96) * groupScale;
-      const heightScale = isDiscountOnly ? 1.6 : 1;
-      const headerRatio = isDiscountOnly ? 0.28 : 0.42;
-      const rowY = currentY + 6 * groupScale;
-      const headerHeight = rowHeight * headerRatio * heightScale;
-      const radius = 16 * groupScale;
-
-      objects.push(new Rect({
-        left: centerX - rowWidth / 2,
-        top: rowY,
-        width: rowWidth,
-        height: rowHeight * heightScale,
-        fill: '#f8fafc',
-        stroke: '#d1d5db',
-        strokeWidth: 1,
-        rx: radius,
-        ry: radius,
-        shadow: { color: 'rgba(15, 23, 42, 0.15)', blur: 6, offsetX: 0, offsetY: 2 },
-      }));
-
-      const gradient = new Gradient({
-        type: 'linear',
-        coords: { x1: centerX - rowWidth / 2, y1: rowY, x2: centerX + rowWidth / 2, y2: rowY },
-        colorStops: [
-          { offset: 0, color: '#ef4444' },
-          { offset: 1, color: '#ef4444' },
-        ],
-      });
-
-      objects.push(new Rect({
-        left: centerX - rowWidth / 2,
-        top: rowY,
-        width: rowWidth,
-        height: headerHeight,
-        fill: gradient,
-        rx: radius,
-        ry: radius,
-      }));
-
-      objects.push(new FabricText('POTONGAN HARGA', {
-        left: centerX,
-        top: rowY + headerHeight * 0.5,
-        fontSize: (settings.layout === '4' ? 12 : settings.layout === '2' ? 13 : 14) * groupScale * (isDiscountOnly ? 1.4 : 1),
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '800',
-        fill: '#ffffff',
-        originX: 'center',
-        originY: 'center',
-      }));
-      objects.push(new FabricText(`Rp ${formatPrice(cutValue)}`, {
-        left: centerX,
-        top: rowY + headerHeight + (rowHeight * heightScale - headerHeight) * 0.55,
-        fontSize: (settings.layout === '4' ? 26 : settings.layout === '2' ? 31 : 38) * groupScale * (isDiscountOnly ? 1.8 : 1),
-        fontFamily: 'Inter, sans-serif',
-        fontWeight: '800',
-        fill: '#4b5563',
-        originX: 'center',
-        originY: 'center',
-      }));
-    } else if (baseDiscount > 0 || disc2Raw > 0 || disc3Raw > 0 || disc4AsDiscountRaw > 0 || memberRaw > 0) {
-      const fitFontSizeToWidth = (text: string, initialSize: number, maxWidth: number, minSize: number) => {
-        let size = initialSize;
-        while (size > minSize) {
-          const metrics = new FabricText(text, {
-            fontSize: size,
-            fontFamily: 'Inter, sans-serif',
-            fontWeight: '800',
-          });
-          const width = metrics.getScaledWidth?.() ?? metrics.width ?? 0;
-          if (width <= maxWidth) return size;
-          size -= 1;
-        }
-        return minSize;
-      };
-
-      const formatPercentValue = (value: number) => {
-        const fixed = value.toFixed(2);
-        return fixed.replace(/\.00$/, '').replace(/(\.\d)0$/, '$1');
-      };
-      const baseValue = baseDiscount;
-      const disc2Value = disc2Raw;
-      const disc3Value = disc3Raw;
-      const disc4AsDiscountValue = disc4AsDiscountRaw;
-      const member = memberRaw;
-      const discountParts = [baseValue, disc2Value, disc3Value, disc4AsDiscountValue].filter((value) => value > 0);
-      const discountValue = discountParts.map((value) => `${formatPercentValue(value)}%`).join(' + ');
-      const discountLabel = product.upTo ? 'DISKON UP TO' : 'DISKON';
-      const items = [
-        discountParts.length > 0 ? { label: discountLabel, value: discountValue, colors: ['#ef4444', '#ef4444'] } : null,
-        member > 0 ? { label: 'MEMBER', value: `${formatPercentValue(member)}%`, colors: ['#1d4ed8', '#60a5fa'] } : null,
-      ].filter(Boolean) as { label: string; value: string; colors: [string, string] }[];
-
-      if (items.length === 0) {
-        return new Group(objects);
-      }
-
-      const labelFontSize = (settings.layout === '4' ? 12 : settings.layout === '2' ? 13 : 14) * groupScale * (isDiscountOnly ? 1.7 : 1);
-      const valueFontSize = (settings.layout === '4' ? 26 : settings.layout === '2' ? 31 : 38) * groupScale * (isDiscountOnly ? 2.2 : 1);
-      let rowWidth = items.length === 1 ? contentWidth * 0.4 : contentWidth;
-      if (isDiscountOnly) {
-        rowWidth = contentWidth;
-      }
-      if (items.length === 1) {
-        const labelMetrics = new FabricText(items[0].label, {
-          fontSize: labelFontSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '800',
-        });
-        const valueMetrics = new FabricText(items[0].value, {
-          fontSize: valueFontSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '800',
-        });
-        const labelWidth = labelMetrics.getScaledWidth?.() ?? labelMetrics.width ?? 0;
-        const valueWidth = valueMetrics.getScaledWidth?.() ?? valueMetrics.width ?? 0;
-        const textWidth = Math.max(labelWidth, valueWidth);
-        const minWidth = contentWidth * 0.4;
-        const maxWidth = contentWidth;
-        rowWidth = Math.min(maxWidth, Math.max(minWidth, textWidth + 36 * groupScale));
-      }
-      const rowHeight = (settings.layout === '4' ? 70 : settings.layout === '2' ? 84 : 96) * groupScale;
-      const heightScale = isDiscountOnly ? 2 : 1;
-      const headerRatio = isDiscountOnly ? 0.3 : 0.42;
-      const rowY = currentY + 6 * groupScale;
-      const headerHeight = rowHeight * headerRatio * heightScale;
-      const radius = 16 * groupScale;
-
-      objects.push(new Rect({
-        left: centerX - rowWidth / 2,
-        top: rowY,
-        width: rowWidth,
-        height: rowHeight * heightScale,
-        fill: '#f8fafc',
-        stroke: '#d1d5db',
-        strokeWidth: 1,
-        rx: radius,
-        ry: radius,
-        shadow: { color: 'rgba(15, 23, 42, 0.15)', blur: 6, offsetX: 0, offsetY: 2 },
-      }));
-
-      const cellWidth = rowWidth / items.length;
-
-      items.forEach((item, index) => {
-        const cellX = centerX - rowWidth / 2 + cellWidth * index;
-        const textMaxWidth = Math.max(40, cellWidth - 24 * groupScale);
-        const dynamicLabelSize = fitFontSizeToWidth(
-          item.label,
-          labelFontSize,
-          textMaxWidth,
-          Math.max(10, labelFontSize * 0.7)
-        );
-        const dynamicValueSize = fitFontSizeToWidth(
-          item.value,
-          valueFontSize,
-          textMaxWidth,
-          Math.max(16, valueFontSize * 0.5)
-        );
-
-        objects.push(new Rect({
-          left: cellX,
-          top: rowY,
-          width: cellWidth,
-          height: rowHeight * heightScale,
-          fill: '#f8fafc',
-          stroke: '#d1d5db',
-          strokeWidth: 1,
-          rx: radius,
-          ry: radius,
+      guides.forEach(([x1, y1, x2, y2]) => {
+        canvas.add(new Line([x1, y1, x2, y2], {
+          stroke: '#9ca3af',
+          strokeWidth: 0.75,
+          strokeDashArray: [6, 4],
+          selectable: false,
+          evented: false,
         }));
-
-        const gradient = new Gradient({
-          type: 'linear',
-          coords: { x1: cellX, y1: rowY, x2: cellX + cellWidth, y2: rowY },
-          colorStops: [
-            { offset: 0, color: item.colors[0] },
-            { offset: 1, color: item.colors[1] },
-          ],
-        });
-
-        objects.push(new Rect({
-          left: cellX,
-          top: rowY,
-          width: cellWidth,
-          height: headerHeight,
-          fill: gradient,
-          rx: radius,
-          ry: radius,
-        }));
-
-        objects.push(new FabricText(item.label, {
-          left: cellX + cellWidth / 2,
-          top: rowY + headerHeight * 0.5,
-          fontSize: dynamicLabelSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '800',
-          fill: '#ffffff',
-          originX: 'center',
-          originY: 'center',
-        }));
-        objects.push(new FabricText(item.value, {
-          left: cellX + cellWidth / 2,
-          top: rowY + headerHeight + (rowHeight * heightScale - headerHeight) * 0.55,
-          fontSize: dynamicValueSize,
-          fontFamily: 'Inter, sans-serif',
-          fontWeight: '800',
-          fill: items.length > 1 ? '#4b5563' : '#dc2626',
-          originX: 'center',
-          originY: 'center',
-        }));
-
-        if (items.length > 1 && index > 0) {
-          objects.push(new Line([cellX, rowY + 6, cellX, rowY + rowHeight * heightScale - 6], {
-            stroke: '#e5e7eb',
-            strokeWidth: 1,
-          }));
-        }
       });
-    }
-
-    return new Group(objects);
-  }, [drawBarcode]);
-
-  const totalPages = Math.max(products.length, 1);
-  const [internalPage, setInternalPage] = useState(0);
-  const currentPage = activeIndex ?? internalPage;
-  const setPage = useCallback((nextPage: number) => {
-    const clamped = Math.max(0, Math.min(totalPages - 1, nextPage));
-    if (onActiveIndexChange) {
-      onActiveIndexChange(clamped);
-    } else {
-      setInternalPage(clamped);
-    }
-  }, [onActiveIndexChange, totalPages]);
-
-  useEffect(() => {
-    if (currentPage > totalPages - 1) {
-      setPage(Math.max(0, totalPages - 1));
-    }
-  }, [currentPage, setPage, totalPages]);
-
-  const renderPageCanvas = useCallback(async (
-    canvas: FabricCanvas,
-    product: Product | undefined
-  ) => {
-    canvas.clear();
-    canvas.backgroundColor = '#ffffff';
-
-    const cols = 1;
-    const rows = 1;
-    const itemWidth = A4_WIDTH / cols;
-    const itemHeight = A4_HEIGHT / rows;
+    };
 
     const renderDefaultCanvas = async () => {
-      if (!product) {
-        canvas.renderAll();
-        return;
-      }
-
-      const popGroup = await drawPOPItem(product, 0, 0, itemWidth, itemHeight, settings, false);
-      const savedTransform = itemTransforms[product.sku];
-      if (savedTransform) {
-        popGroup.set(savedTransform);
-        popGroup.setCoords();
+      for (const cell of cells) {
+        if (cell.product) {
+          await addPopGroup(cell.product, cell.x, cell.y, false);
+        }
       }
-      canvas.add(popGroup);
+      addCutMarks();
       canvas.renderAll();
     };
 
     if (selectedTemplateData.type === 'custom' && selectedTemplateData.imageUrl) {
       try {
-        const img = await FabricImage.fromURL(selectedTemplateData.imageUrl);
-        img.scaleToWidth(A4_WIDTH);
-        img.scaleToHeight(A4_HEIGHT);
-        img.set({ left: 0, top: 0, selectable: false });
-        canvas.add(img);
-        canvas.sendObjectToBack(img);
-
-        if (product) {
-          const popGroup = await drawPOPItem(product, 0, 0, itemWidth, itemHeight, settings, true);
-          const savedTransform = itemTransforms[product.sku];
-          if (savedTransform) {
-            popGroup.set(savedTransform);
-            popGroup.setCoords();
+        const cellZoneFrames: (ZoneFrames | undefined)[] = [];
+        for (const cell of cells) {
+          const img = await FabricImage.fromURL(selectedTemplateData.imageUrl);
+          fitTemplateImage(img, cell.x, cell.y, itemWidth, itemHeight);
+          canvas.add(img);
+          canvas.sendObjectToBack(img);
+          cellZoneFrames.push(resolveZoneFrames(selectedTemplateData.zones, {
+            left: img.left,
+            top: img.top,
+            width: img.getScaledWidth(),
+            height: img.getScaledHeight(),
+          }));
+        }
+
+        for (const [index, cell] of cells.entries()) {
+          if (cell.product) {
+            await addPopGroup(cell.product, cell.x, cell.y, true, cellZoneFrames[index]);
           }
-          canvas.add(popGroup);
         }
 
+        addCutMarks();
         canvas.renderAll();
       } catch (err) {
         console.error('Failed to load template image:', err);
+        canvas.clear();
+        canvas.backgroundColor = '#ffffff';
         await renderDefaultCanvas();
       }
     } else {
       await renderDefaultCanvas();
     }
-  }, [drawPOPItem, itemTransforms, selectedTemplateData, settings]);
+
+    // Overlays sit above the POPs and cut marks
+    for (const overlay of overlays) {
+      const object = await createOverlayObject(overlay);
+      if (object) {
+        canvas.add(object);
+      }
+    }
+    canvas.renderAll();
+  }, [cols, editElements, itemTransforms, itemsPerPage, page, popLayouts, rows, selectedTemplateData, settings]);
+
+  const forEachPage = useCallback(async (
+    scale: number,
+    visit: (canvas: FabricCanvas, pageIndex: number) => Promise<void> | void
+  ) => {
+    for (let index = 0; index < totalPages; index++) {
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = page.width * scale;
+      tempCanvas.height = page.height * scale;
+      const canvas = new FabricCanvas(tempCanvas, {
+        width: page.width * scale,
+        height: page.height * scale,
+        backgroundColor: '#ffffff',
+        selection: false,
+      });
+      canvas.setZoom(scale);
+
+      try {
+        await renderPageCanvas(canvas, getPageProducts(index), getPlacedOverlays(index));
+        await visit(canvas, index);
+      } finally {
+        canvas.dispose();
+      }
+    }
+    return totalPages;
+  }, [getPageProducts, getPlacedOverlays, page, renderPageCanvas, totalPages]);
 
   useImperativeHandle(ref, () => ({
     getPageImages: async () => {
       const images: string[] = [];
-      for (let index = 0; index < totalPages; index++) {
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = A4_WIDTH * PRINT_SCALE;
-        tempCanvas.height = A4_HEIGHT * PRINT_SCALE;
-        const canvas = new FabricCanvas(tempCanvas, {
-          width: A4_WIDTH * PRINT_SCALE,
-          height: A4_HEIGHT * PRINT_SCALE,
-          backgroundColor: '#ffffff',
-          selection: false,
-        });
-        canvas.setZoom(PRINT_SCALE);
-
-        await renderPageCanvas(canvas, products[index]);
+      await forEachPage(PRINT_SCALE, (canvas) => {
         images.push(canvas.toDataURL({ format: 'png' }));
-        canvas.dispose();
-      }
+      });
       return images;
     },
-  }), [products, renderPageCanvas, totalPages]);
+    renderPages: (visit) => forEachPage(1, visit),
+  }), [forEachPage]);
 
   return (
     <div className="flex flex-col h-full">
@@ -822,9 +574,47 @@ export const PopPreview = forwardRef<PopPreviewHandle, PopPreviewProps>(({
       {/* Preview Container */}
       <div className="flex-1 flex items-center justify-center bg-muted/50 rounded-lg p-4 overflow-auto">
         <div className="flex flex-col items-center gap-3">
-          <div className="text-xs text-muted-foreground">
-            Page {currentPage + 1}/{totalPages}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span>Page {currentPage + 1}/{totalPages}</span>
+            {templateKind === 'product' ? (
+              <>
+                <button
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded border ${editElements ? 'border-primary text-primary' : 'border-border'}`}
+                  onClick={() => setEditElements((prev) => !prev)}
+                  title="Geser brand, harga, barcode, dll. satu per satu"
+                >
+                  <Move className="w-3 h-3" />
+                  {editElements ? 'Mode Elemen' : 'Mode POP'}
+                </button>
+                {activeHasOffsets ? (
+                  <button
+                    className="flex items-center gap-1 px-2 py-0.5 rounded border border-border"
+                    onClick={resetActiveElements}
+                    title="Kembalikan posisi elemen produk terpilih"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Reset Elemen
+                  </button>
+                ) : null}
+              </>
+            ) : null}
           </div>
+          <OverlayToolbar
+            selected={selectedOverlay}
+            onAdd={addOverlay}
+            onUpdate={(changes) => selectedOverlay && updateOverlay(selectedOverlay.id, changes)}
+            onRemove={removeSelectedOverlay}
+          />
+          {barcodeIssues.length > 0 ? (
+            <div className="w-full max-w-[595px] rounded border border-destructive/40 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+              <p className="font-semibold">Barcode tidak dicetak:</p>
+              {barcodeIssues.map((issue) => (
+                <p key={issue.queueId}>
+                  <span className="font-mono">{issue.sku}</span> {issue.name} - {issue.error}
+                </p>
+              ))}
+            </div>
+          ) : null}
           <div
             className="a4-preview rounded"
             style={{
@@ -834,11 +624,16 @@ export const PopPreview = forwardRef<PopPreviewHandle, PopPreviewProps>(({
             }}
           >
             <PageCanvas
-              product={products[currentPage]}
+              products={currentPageProducts}
+              width={page.width}
+              height={page.height}
               renderPageCanvas={renderPageCanvas}
-              onTransformChange={(sku, transform) => {
-                setItemTransforms((prev) => ({ ...prev, [sku]: transform }));
-              }}
+              onTransformChange={onItemTransformChange}
+              onElementMove={handleElementMove}
+              overlays={currentOverlays}
+              selectedOverlayId={selectedOverlayId}
+              onOverlaySelect={setSelectedOverlayId}
+              onOverlayMove={moveOverlay}
             />
           </div>
           {totalPages > 1 ? (
@@ -887,19 +682,56 @@ export const PopPreview = forwardRef<PopPreviewHandle, PopPreviewProps>(({
 PopPreview.displayName = 'PopPreview';
 
 interface PageCanvasProps {
-  product: Product | undefined;
-  renderPageCanvas: (canvas: FabricCanvas, product: Product | undefined) => Promise<void>;
-  onTransformChange: (sku: string, transform: PopItemTransform) => void;
+  products: Product[];
+  width: number;
+  height: number;
+  renderPageCanvas: (canvas: FabricCanvas, pageProducts: Product[], overlays?: PlacedOverlay[]) => Promise<void>;
+  onTransformChange: (queueId: string, transform: PopItemTransform) => void;
+  onElementMove: (queueId: string, key: TemplateZoneKey, offset: PopElementOffset) => void;
+  overlays: PlacedOverlay[];
+  selectedOverlayId: string | null;
+  onOverlaySelect: (id: string | null) => void;
+  /** Placement in page units; `center` decides which POP the overlay belongs to */
+  onOverlayMove: (id: string, placement: OverlayPlacement, center: { x: number; y: number }) => void;
 }
 
-const PageCanvas = ({ product, renderPageCanvas, onTransformChange }: PageCanvasProps) => {
+const PageCanvas = ({
+  products,
+  width,
+  height,
+  renderPageCanvas,
+  onTransformChange,
+  onElementMove,
+  overlays,
+  selectedOverlayId,
+  onOverlaySelect,
+  onOverlayMove,
+}: PageCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
+  // Read through refs so changing the selection does not redraw the page
+  const selectedOverlayIdRef = useRef(selectedOverlayId);
+  selectedOverlayIdRef.current = selectedOverlayId;
+  const isRenderingRef = useRef(false);
 
   const renderCanvas = useCallback(async () => {
     if (!fabricCanvas) return;
-    await renderPageCanvas(fabricCanvas, product);
-  }, [fabricCanvas, product, renderPageCanvas]);
+    isRenderingRef.current = true;
+    try {
+      await renderPageCanvas(fabricCanvas, products, overlays);
+      // Keep the overlay being edited selected across redraws
+      const selectedId = selectedOverlayIdRef.current;
+      const selected = selectedId
+        ? fabricCanvas.getObjects().find((object) => popOverlayIds.get(object) === selectedId)
+        : undefined;
+      if (selected) {
+        fabricCanvas.setActiveObject(selected);
+        fabricCanvas.requestRenderAll();
+      }
+    } finally {
+      isRenderingRef.current = false;
+    }
+  }, [fabricCanvas, overlays, products, renderPageCanvas]);
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -918,29 +750,61 @@ const PageCanvas = ({ product, renderPageCanvas, onTransformChange }: PageCanvas
     };
   }, []);
 
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    fabricCanvas.setDimensions({ width, height });
+  }, [fabricCanvas, height, width]);
+
   useEffect(() => {
     renderCanvas();
   }, [renderCanvas]);
 
   useEffect(() => {
-    if (!fabricCanvas || !product) return;
-    const handleObjectModified = (event: { target?: Group }) => {
+    if (!fabricCanvas) return;
+    const handleObjectModified = (event: { target?: FabricObject }) => {
       const target = event.target;
-      if (!target) return;
-      onTransformChange(product.sku, {
-        left: target.left,
-        top: target.top,
-        scaleX: target.scaleX,
-        scaleY: target.scaleY,
-        angle: target.angle,
-      });
+      const overlayId = target ? popOverlayIds.get(target) : undefined;
+      if (overlayId) {
+        const center = target.getCenterPoint();
+        onOverlayMove(overlayId, {
+          left: target.left,
+          top: target.top,
+          scaleX: target.scaleX,
+          scaleY: target.scaleY,
+          angle: target.angle,
+        }, { x: center.x, y: center.y });
+        return;
+      }
+      const origin = target ? popElementOrigins.get(target) : undefined;
+      if (origin) {
+        onElementMove(origin.queueId, origin.key, {
+          x: origin.offset.x + target.left - origin.left,
+          y: origin.offset.y + target.top - origin.top,
+        });
+        return;
+      }
+      const item = target ? popItemCells.get(target) : undefined;
+      if (!item) return;
+      onTransformChange(item.queueId, toCellTransform(item.cell, target));
+    };
+
+    const handleSelection = () => {
+      if (isRenderingRef.current) return;
+      const active = fabricCanvas.getActiveObject();
+      onOverlaySelect(active ? popOverlayIds.get(active) ?? null : null);
     };
 
     fabricCanvas.on('object:modified', handleObjectModified);
+    fabricCanvas.on('selection:created', handleSelection);
+    fabricCanvas.on('selection:updated', handleSelection);
+    fabricCanvas.on('selection:cleared', handleSelection);
     return () => {
       fabricCanvas.off('object:modified', handleObjectModified);
+      fabricCanvas.off('selection:created', handleSelection);
+      fabricCanvas.off('selection:updated', handleSelection);
+      fabricCanvas.off('selection:cleared', handleSelection);
     };
-  }, [fabricCanvas, onTransformChange, product]);
+  }, [fabricCanvas, onElementMove, onOverlayMove, onOverlaySelect, onTransformChange]);
 
   return <canvas ref={canvasRef} />;
 };
@@ -1,10 +1,20 @@
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Grid2X2, Grid3X3, Square } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Grid2X2, Grid3X3, Rows2, Square, RectangleVertical, RectangleHorizontal } from 'lucide-react';
+import {
+  PAPER_SIZES,
+  PaperOrientation,
+  PaperSettings,
+  PaperSize,
+  MAX_CUSTOM_PAPER_MM,
+  MIN_CUSTOM_PAPER_MM,
+  getPaperLabel,
+} from '@/lib/paper';
 
-export interface PopSettingsState {
+export interface PopSettingsState extends PaperSettings {
   showStrikePrice: boolean;
-  showDiscount: boolean;
   showBarcode: boolean;
   layout: '1' | '2' | '4';
 }
@@ -15,7 +25,22 @@ interface PopSettingsProps {
 }
 
 const layoutOptions = [
-  { value: '1' as const, label: '1 POP / A4', icon: Square }
+  { value: '1' as const, count: 1, icon: Square },
+  { value: '2' as const, count: 2, icon: Rows2 },
+  { value: '4' as const, count: 4, icon: Grid2X2 },
+];
+
+const paperOptions: { value: PaperSize; label: string }[] = [
+  ...Object.entries(PAPER_SIZES).map(([value, size]) => ({
+    value: value as PaperSize,
+    label: `${size.label} (${size.widthMm} x ${size.heightMm} mm)`,
+  })),
+  { value: 'custom', label: 'Custom (strip rak)' },
+];
+
+const orientationOptions = [
+  { value: 'portrait' as const, label: 'Portrait', icon: RectangleVertical },
+  { value: 'landscape' as const, label: 'Landscape', icon: RectangleHorizontal },
 ];
 
 export const PopSettings = ({ settings, onSettingsChange }: PopSettingsProps) => {
@@ -27,6 +52,21 @@ export const PopSettings = ({ settings, onSettingsChange }: PopSettingsProps) =>
     onSettingsChange({ ...settings, layout });
   };
 
+  const handlePaperSizeChange = (paperSize: PaperSize) => {
+    onSettingsChange({ ...settings, paperSize });
+  };
+
+  const handleOrientationChange = (orientation: PaperOrientation) => {
+    onSettingsChange({ ...settings, orientation });
+  };
+
+  const handleCustomSizeChange = (key: 'customWidthMm' | 'customHeightMm') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ ...settings, [key]: Number(e.target.value) });
+  };
+
+  const paperLabel = getPaperLabel(settings);
+  const isCustomPaper = settings.paperSize === 'custom';
+
   return (
     <div className="space-y-4">
       <h3 className="section-title">Pengaturan POP</h3>
@@ -46,43 +86,81 @@ export const PopSettings = ({ settings, onSettingsChange }: PopSettingsProps) =>
 
         <div className="flex items-center space-x-2">
           <Checkbox
-            id="showDiscount"
-            checked={settings.showDiscount}
-            onCheckedChange={handleCheckboxChange('showDiscount')}
+            id="showBarcode"
+            checked={settings.showBarcode}
+            onCheckedChange={handleCheckboxChange('showBarcode')}
           />
-          <Label htmlFor="showDiscount" className="text-sm cursor-pointer">
-            Tampilkan Diskon %
+          <Label htmlFor="showBarcode" className="text-sm cursor-pointer">
+            Tampilkan Barcode
           </Label>
         </div>
+      </div>
 
-        <div className="flex items-center space-x-2">
-          <Checkbox
-            id="showDiscount"
-            checked={settings.showDiscount}
-            onCheckedChange={handleCheckboxChange('showDiscount')}
-          />
-          <Label htmlFor="showDiscount" className="text-sm cursor-pointer">
-            Tampilkan Diskon 2 %
-          </Label>
-        </div>
+      {/* Paper Options */}
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Ukuran Kertas:</p>
+        <Select value={settings.paperSize} onValueChange={(value) => handlePaperSizeChange(value as PaperSize)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {paperOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
 
-        <div className="flex items-center space-x-2">
-          <Checkbox
-            id="showDiscount"
-            checked={settings.showDiscount}
-            onCheckedChange={handleCheckboxChange('showDiscount')}
-          />
-          <Label htmlFor="showDiscount" className="text-sm cursor-pointer">
-            Tampilkan Diskon 3 %
-          </Label>
-        </div>
+        {isCustomPaper ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="customWidthMm" className="text-xs text-muted-foreground">Lebar (mm)</Label>
+              <Input
+                id="customWidthMm"
+                type="number"
+                min={MIN_CUSTOM_PAPER_MM}
+                max={MAX_CUSTOM_PAPER_MM}
+                value={settings.customWidthMm}
+                onChange={handleCustomSizeChange('customWidthMm')}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="customHeightMm" className="text-xs text-muted-foreground">Tinggi (mm)</Label>
+              <Input
+                id="customHeightMm"
+                type="number"
+                min={MIN_CUSTOM_PAPER_MM}
+                max={MAX_CUSTOM_PAPER_MM}
+                value={settings.customHeightMm}
+                onChange={handleCustomSizeChange('customHeightMm')}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            {orientationOptions.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => handleOrientationChange(value)}
+                className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg border transition-all ${settings.orientation === value
+                  ? 'border-primary bg-primary/5 text-primary'
+                  : 'border-border text-muted-foreground hover:border-muted-foreground/50'
+                  }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span className="text-xs font-medium">{label}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Layout Options */}
       <div className="space-y-2">
         <p className="text-xs text-muted-foreground">Layout per Halaman:</p>
         <div className="flex gap-2">
-          {layoutOptions.map(({ value, label, icon: Icon }) => (
+          {layoutOptions.map(({ value, count, icon: Icon }) => (
             <button
               key={value}
               onClick={() => handleLayoutChange(value)}
@@ -92,7 +170,7 @@ export const PopSettings = ({ settings, onSettingsChange }: PopSettingsProps) =>
                 }`}
             >
               <Icon className="w-5 h-5" />
-              <span className="text-xs font-medium">{label}</span>
+              <span className="text-xs font-medium">{count} POP / {paperLabel}</span>
             </button>
           ))}
         </div>
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+import { EditableProductField, Product, formatPrice } from '@/data/products';
+import { getQueueId } from '@/lib/printQueue';
+import { usePopLayouts } from '@/hooks/use-pop-layouts';
+import {
+  EDITABLE_PRODUCT_FIELDS,
+  applyProductOverrides,
+  getOverriddenFields,
+  getProductBrandLabel,
+  getProductDescription,
+  isFieldOverridden,
+  revertProductField,
+  revertProductOverrides,
+} from '@/lib/productOverrides';
+
+interface ProductEditPanelProps {
+  product: Product;
+  onChange: (product: Product) => void;
+  disabled?: boolean;
+}
+
+type DraftField = Exclude<EditableProductField, 'upTo'>;
+type Drafts = Record<DraftField, string>;
+
+const TEXT_FIELDS: DraftField[] = ['name', 'description', 'brand', 'uom'];
+const PRICE_FIELDS: DraftField[] = ['normalPrice', 'promoPrice'];
+const OPTIONAL_NUMBER_FIELDS: DraftField[] = ['extraDiscount', 'memberDiscount'];
+const WIDE_FIELDS: DraftField[] = ['name', 'description'];
+// Radix Select rejects empty values, so "follow the template" gets its own sentinel
+const TEMPLATE_LAYOUT = 'template';
+
+const fieldLabel = (key: EditableProductField) =>
+  EDITABLE_PRODUCT_FIELDS.find((field) => field.key === key)?.label ?? key;
+
+// Brand and description inputs start from what is printed, which may come from the database segments
+const displayValue = (product: Product, key: DraftField) => {
+  if (key === 'brand') return getProductBrandLabel(product);
+  if (key === 'description') return getProductDescription(product);
+  return product[key];
+};
+
+const toDrafts = (product: Product): Drafts =>
+  Object.fromEntries(
+    EDITABLE_PRODUCT_FIELDS
+      .filter((field) => field.key !== 'upTo')
+      .map((field) => {
+        const value = displayValue(product, field.key as DraftField);
+        return [field.key, value === undefined || value === null ? '' : String(value)];
+      })
+  ) as Drafts;
+
+/** Parses a draft; `valid: false` leaves the product untouched until the input is fixed. */
+const parseDraft = (key: DraftField, raw: string): { valid: boolean; value?: string | number } => {
+  if (TEXT_FIELDS.includes(key)) {
+    if (key === 'name' && !raw.trim()) return { valid: false };
+    return { valid: true, value: raw || undefined };
+  }
+  if (!raw.trim()) {
+    return OPTIONAL_NUMBER_FIELDS.includes(key) ? { valid: true, value: undefined } : { valid: true, value: 0 };
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) return { valid: false };
+  return { valid: true, value };
+};
+
+const formatSourceValue = (key: EditableProductField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '(kosong)';
+  if (key === 'upTo') return value ? 'Ya' : 'Tidak';
+  if (PRICE_FIELDS.includes(key as DraftField)) return `Rp ${formatPrice(Number(value))}`;
+  if (typeof value === 'number') return `${value}%`;
+  return String(value);
+};
+
+export const ProductEditPanel = ({ product, onChange, disabled = false }: ProductEditPanelProps) => {
+  const [drafts, setDrafts] = useState<Drafts>(() => toDrafts(product));
+  const emittedRef = useRef<Product | null>(null);
+  const popLayouts = usePopLayouts();
+
+  // Resync only on outside changes (revert, reprice, another panel); our own edits keep the typed text
+  useEffect(() => {
+    if (product === emittedRef.current) return;
+    setDrafts(toDrafts(product));
+  }, [product]);
+
+  const emit = (next: Product) => {
+    emittedRef.current = next;
+    onChange(next);
+  };
+
+  const handleDraftChange = (key: DraftField, raw: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: raw }));
+    const parsed = parseDraft(key, raw);
+    if (!parsed.valid) return;
+    emit(applyProductOverrides(product, { [key]: parsed.value }));
+  };
+
+  const handleRevert = (key: EditableProductField) => {
+    emittedRef.current = null;
+    onChange(revertProductField(product, key));
+  };
+
+  const handleRevertAll = () => {
+    emittedRef.current = null;
+    onChange(revertProductOverrides(product));
+  };
+
+  const overriddenCount = getOverriddenFields(product).length;
+
+  const renderRevert = (key: EditableProductField) =>
+    isFieldOverridden(product, key) ? (
+      <button
+        type="button"
+        className="text-muted-foreground hover:text-primary disabled:opacity-50"
+        title={`Kembalikan ke: ${formatSourceValue(key, product.sourceValues?.[key])}`}
+        onClick={() => handleRevert(key)}
+        disabled={disabled}
+      >
+        <RotateCcw className="w-3 h-3" />
+      </button>
+    ) : null;
+
+  return (
+    <div
+      className="mt-3 pt-3 border-t border-border space-y-2"
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={(event) => event.stopPropagation()}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        {EDITABLE_PRODUCT_FIELDS.filter((field) => field.key !== 'upTo').map((field) => {
+          const key = field.key as DraftField;
+          const inputId = `product-edit-${getQueueId(product)}-${key}`;
+          const isText = TEXT_FIELDS.includes(key);
+          return (
+            <div key={key} className={`space-y-1 ${WIDE_FIELDS.includes(key) ? 'col-span-2' : ''}`}>
+              <div className="flex items-center justify-between gap-1">
+                <Label
+                  htmlFor={inputId}
+                  className={`text-xs ${isFieldOverridden(product, key) ? 'text-primary' : 'text-muted-foreground'}`}
+                >
+                  {field.label}
+                </Label>
+                {renderRevert(key)}
+              </div>
+              <Input
+                id={inputId}
+                className="h-8 text-sm"
+                type={isText ? 'text' : 'number'}
+                min={isText ? undefined : '0'}
+                value={drafts[key]}
+                onChange={(e) => handleDraftChange(key, e.target.value)}
+                onBlur={() => setDrafts(toDrafts(product))}
+                disabled={disabled}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`product-edit-${getQueueId(product)}-layout`} className="text-xs text-muted-foreground">
+          Layout POP
+        </Label>
+        <Select
+          value={product.popLayout ?? TEMPLATE_LAYOUT}
+          onValueChange={(value) => emit({ ...product, popLayout: value === TEMPLATE_LAYOUT ? undefined : value })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`product-edit-${getQueueId(product)}-layout`} className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TEMPLATE_LAYOUT}>Ikuti template</SelectItem>
+            {popLayouts.map((layout) => (
+              <SelectItem key={layout.id} value={layout.id}>
+                {layout.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={product.upTo === true}
+            onCheckedChange={(checked) => emit(applyProductOverrides(product, { upTo: checked === true || undefined }))}
+            disabled={disabled}
+          />
+          <span className={isFieldOverridden(product, 'upTo') ? 'text-primary' : undefined}>{fieldLabel('upTo')}</span>
+          {renderRevert('upTo')}
+        </label>
+        {overriddenCount > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleRevertAll} disabled={disabled}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Kembalikan semua ({overriddenCount})
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
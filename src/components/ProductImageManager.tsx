@@ -0,0 +1,255 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ImageIcon, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProductImage, productImageStorage, skuFromFilename } from '@/lib/productImageStorage';
+
+interface ProductImageManagerProps {
+  /** Called after an upload or delete so queued products pick up the new photo */
+  onImageChange: (sku: string, url?: string) => void;
+}
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(new Error('Gagal membaca file'));
+    reader.readAsDataURL(file);
+  });
+
+const validateImageFile = (file: File) => {
+  if (!file.type.startsWith('image/')) return 'File harus berupa gambar (JPG, PNG, etc)';
+  if (file.size > MAX_IMAGE_SIZE) return 'Ukuran file maksimal 5MB';
+  return null;
+};
+
+const formatUploadedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ProductImageManager = ({ onImageChange }: ProductImageManagerProps) => {
+  const [open, setOpen] = useState(false);
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sku, setSku] = useState('');
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const singleFileRef = useRef<HTMLInputElement>(null);
+  const bulkFileRef = useRef<HTMLInputElement>(null);
+
+  const loadImages = async () => {
+    setIsLoading(true);
+    try {
+      setImages(await productImageStorage.getImages());
+    } catch (error) {
+      console.error('Failed to load product images:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat foto produk');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const storeImage = (image: ProductImage) => {
+    setImages((prev) => [image, ...prev.filter((item) => item.sku !== image.sku)]);
+    onImageChange(image.sku, image.url);
+  };
+
+  const handleSingleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const targetSku = sku.trim().toUpperCase();
+    if (!targetSku) {
+      toast.error('SKU wajib diisi');
+      return;
+    }
+    const invalid = validateImageFile(file);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setBusy('single');
+    try {
+      storeImage(await productImageStorage.uploadImage(targetSku, await readFileAsDataUrl(file)));
+      setSku('');
+      toast.success(`Foto ${targetSku} disimpan`);
+    } catch (error) {
+      console.error('Failed to upload product image:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan foto produk');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Each file is named after its pd_code; uploads run one by one to keep request sizes small
+  const handleBulkFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setBusy('bulk');
+    const failed: string[] = [];
+    let uploaded = 0;
+    for (const file of files) {
+      const fileSku = skuFromFilename(file.name);
+      if (!fileSku || validateImageFile(file)) {
+        failed.push(file.name);
+        continue;
+      }
+      try {
+        storeImage(await productImageStorage.uploadImage(fileSku, await readFileAsDataUrl(file)));
+        uploaded += 1;
+      } catch (error) {
+        console.error('Failed to upload product image:', file.name, error);
+        failed.push(file.name);
+      }
+    }
+    setBusy(null);
+
+    if (uploaded > 0) {
+      toast.success(`${uploaded} foto produk disimpan`);
+    }
+    if (failed.length > 0) {
+      toast.error(`${failed.length} file gagal: ${failed.slice(0, 5).join(', ')}${failed.length > 5 ? ', ...' : ''}`);
+    }
+  };
+
+  const handleDelete = async (image: ProductImage) => {
+    if (!confirm(`Hapus foto produk ${image.sku}?`)) return;
+    setBusy(image.sku);
+    try {
+      await productImageStorage.deleteImage(image.sku);
+      setImages((prev) => prev.filter((item) => item.sku !== image.sku));
+      onImageChange(image.sku, undefined);
+      toast.success('Foto produk dihapus');
+    } catch (error) {
+      console.error('Failed to delete product image:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus foto produk');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const searchKey = search.trim().toUpperCase();
+  const visibleImages = searchKey ? images.filter((image) => image.sku.includes(searchKey)) : images;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) {
+          loadImages();
+        } else {
+          setSearch('');
+          setSku('');
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="secondary" size="sm" className="gap-2">
+          <ImageIcon className="w-4 h-4" />
+          Foto Produk
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Foto Produk</DialogTitle>
+          <DialogDescription>
+            Satu foto per SKU. Foto dicetak pada template yang memiliki zona Foto Produk. Untuk unggah massal, beri
+            nama file sesuai pd_code, misalnya 10012345.jpg.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[160px] space-y-2">
+            <Label htmlFor="product-image-sku">SKU</Label>
+            <Input
+              id="product-image-sku"
+              placeholder="pd_code"
+              value={sku}
+              onChange={(e) => setSku(e.target.value)}
+              className="uppercase"
+            />
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => singleFileRef.current?.click()}
+            disabled={busy !== null || !sku.trim()}
+          >
+            <Upload className="w-4 h-4" />
+            {busy === 'single' ? 'Mengunggah...' : 'Pilih Foto'}
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => bulkFileRef.current?.click()}
+            disabled={busy !== null}
+          >
+            <Upload className="w-4 h-4" />
+            {busy === 'bulk' ? 'Mengunggah...' : 'Unggah Massal'}
+          </Button>
+          <input ref={singleFileRef} type="file" accept="image/*" className="hidden" onChange={handleSingleFile} />
+          <input ref={bulkFileRef} type="file" accept="image/*" multiple className="hidden" onChange={handleBulkFiles} />
+        </div>
+
+        <Input placeholder="Cari SKU..." value={search} onChange={(e) => setSearch(e.target.value)} />
+
+        {isLoading ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Memuat foto produk...</div>
+        ) : visibleImages.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Belum ada foto produk</div>
+        ) : (
+          <div className="max-h-80 overflow-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Foto</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Diunggah</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleImages.map((image) => (
+                  <TableRow key={image.sku}>
+                    <TableCell>
+                      <img src={image.url} alt={image.sku} className="h-10 max-w-16 object-contain" />
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">{image.sku}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatUploadedAt(image.uploadedAt)}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Hapus foto"
+                        disabled={busy !== null}
+                        onClick={() => handleDelete(image)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, FolderOpen, Save, SaveAll, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectStorage, Project, ProjectContent, ProjectSummary } from '@/lib/projectStorage';
+
+export interface ActiveProject {
+  id: string;
+  name: string;
+}
+
+interface ProjectPanelProps {
+  currentProject: ActiveProject | null;
+  getContent: () => ProjectContent;
+  onProjectChange: (project: ActiveProject | null) => void;
+  onOpenProject: (project: Project) => void;
+  hasProducts: boolean;
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ProjectPanel = ({
+  currentProject,
+  getContent,
+  onProjectChange,
+  onOpenProject,
+  hasProducts,
+}: ProjectPanelProps) => {
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [listDialogOpen, setListDialogOpen] = useState(false);
+  const [projectName, setProjectName] = useState('');
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadProjects = async () => {
+    setLoading(true);
+    try {
+      setProjects(await projectStorage.listProjects());
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat proyek');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openNameDialog = () => {
+    setProjectName(currentProject ? `${currentProject.name} (salinan)` : '');
+    setNameDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!currentProject) {
+      openNameDialog();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await projectStorage.updateProject(currentProject.id, getContent());
+      onProjectChange({ id: saved.id, name: saved.name });
+      toast.success(`Proyek "${saved.name}" disimpan`);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan proyek');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAs = async () => {
+    const name = projectName.trim();
+    if (!name) {
+      toast.error('Nama proyek wajib diisi');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await projectStorage.createProject(name, getContent());
+      onProjectChange({ id: saved.id, name: saved.name });
+      setNameDialogOpen(false);
+      toast.success(`Proyek "${saved.name}" disimpan`);
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan proyek');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpen = async (summary: ProjectSummary) => {
+    if (hasProducts && !confirm(`Buka proyek "${summary.name}"? Daftar produk saat ini akan diganti.`)) {
+      return;
+    }
+
+    try {
+      const project = await projectStorage.getProject(summary.id);
+      if (!project) {
+        toast.error('Proyek tidak ditemukan');
+        await loadProjects();
+        return;
+      }
+      onOpenProject(project);
+      setListDialogOpen(false);
+      toast.success(`Proyek "${project.name}" dibuka`);
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal membuka proyek');
+    }
+  };
+
+  const handleDuplicate = async (summary: ProjectSummary) => {
+    try {
+      const copy = await projectStorage.duplicateProject(summary.id);
+      toast.success(`Proyek "${copy.name}" dibuat`);
+      await loadProjects();
+    } catch (error) {
+      console.error('Failed to duplicate project:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menduplikasi proyek');
+    }
+  };
+
+  const handleDelete = async (summary: ProjectSummary) => {
+    if (!confirm(`Hapus proyek "${summary.name}"?`)) return;
+
+    try {
+      await projectStorage.deleteProject(summary.id);
+      if (currentProject?.id === summary.id) {
+        onProjectChange(null);
+      }
+      toast.success('Proyek berhasil dihapus');
+      await loadProjects();
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus proyek');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="section-title">Proyek</h3>
+        <span className="text-xs text-muted-foreground truncate max-w-[60%]">
+          {currentProject ? currentProject.name : 'Belum disimpan'}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex-1"
+          onClick={handleSave}
+          disabled={!hasProducts || isSaving}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Simpan
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex-1"
+          onClick={openNameDialog}
+          disabled={!hasProducts || isSaving}
+        >
+          <SaveAll className="w-4 h-4 mr-2" />
+          Simpan Sebagai
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => {
+            setListDialogOpen(true);
+            loadProjects();
+          }}
+        >
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Buka
+        </Button>
+      </div>
+
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Simpan Proyek</DialogTitle>
+            <DialogDescription>Simpan daftar produk, template dan posisi elemen sebagai proyek baru.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Nama Proyek</Label>
+            <Input
+              id="project-name"
+              placeholder="Promo Gajian Oct W3"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveAs();
+              }}
+              maxLength={120}
+            />
+          </div>
+          <Button onClick={handleSaveAs} disabled={isSaving} className="w-full">
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Menyimpan...' : 'Simpan'}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={listDialogOpen} onOpenChange={setListDialogOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Proyek Tersimpan</DialogTitle>
+            <DialogDescription>Proyek milik akun ini di site yang sedang aktif.</DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="text-center py-4 text-sm text-muted-foreground">Loading proyek...</div>
+          ) : projects.length === 0 ? (
+            <div className="text-center py-4 text-sm text-muted-foreground">Belum ada proyek tersimpan</div>
+          ) : (
+            <div className="max-h-80 overflow-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nama</TableHead>
+                    <TableHead>Produk</TableHead>
+                    <TableHead>Diubah</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.map((project) => (
+                    <TableRow key={project.id}>
+                      <TableCell className="text-xs font-medium">
+                        {project.name}
+                        {currentProject?.id === project.id ? (
+                          <span className="ml-1 text-muted-foreground">(aktif)</span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-xs">{project.productCount}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {formatUpdatedAt(project.updatedAt)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button size="sm" variant="outline" onClick={() => handleOpen(project)}>
+                            Buka
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            title="Duplikat proyek"
+                            onClick={() => handleDuplicate(project)}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive"
+                            title="Hapus proyek"
+                            onClick={() => handleDelete(project)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
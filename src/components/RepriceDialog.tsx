@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Product, formatPrice } from '@/data/products';
+import { fetchProductsBySkus } from '@/lib/productApi';
+import { refreshProductSource, revertProductOverrides } from '@/lib/productOverrides';
+
+type RepriceStatus = 'changed' | 'expired' | 'missing' | 'unchanged';
+
+type PriceField = 'normalPrice' | 'promoPrice' | 'discount' | 'disc2' | 'disc3' | 'memberDiscount';
+
+interface RepriceRow {
+  index: number;
+  current: Product;
+  latest?: Product;
+  status: RepriceStatus;
+  changedFields: PriceField[];
+}
+
+interface RepriceDialogProps {
+  products: Product[];
+  onApply: (products: Product[]) => void;
+  disabled?: boolean;
+}
+
+const PRICE_FIELDS: { key: PriceField; label: string; isPercent: boolean }[] = [
+  { key: 'normalPrice', label: 'Harga Normal', isPercent: false },
+  { key: 'promoPrice', label: 'Harga Promo', isPercent: false },
+  { key: 'discount', label: 'Disc', isPercent: true },
+  { key: 'disc2', label: 'Disc 2', isPercent: true },
+  { key: 'disc3', label: 'Disc 3', isPercent: true },
+  { key: 'memberDiscount', label: 'Member', isPercent: true },
+];
+
+// Fields copied from the database result; naming, brand and layout edits stay untouched,
+// and manually overridden prices keep the override while their source value is refreshed
+const REPRICED_FIELDS: (keyof Product)[] = [
+  'normalPrice',
+  'promoPrice',
+  'discount',
+  'extraDiscount',
+  'disc2',
+  'disc3',
+  'memberDiscount',
+  'basePricePerMeter',
+  'finalPricePerMeter',
+];
+
+const statusLabel: Record<RepriceStatus, string> = {
+  changed: 'Berubah',
+  expired: 'Promo berakhir',
+  missing: 'Tidak ditemukan',
+  unchanged: 'Sama',
+};
+
+const statusClass: Record<RepriceStatus, string> = {
+  changed: 'text-primary',
+  expired: 'text-destructive',
+  missing: 'text-destructive',
+  unchanged: 'text-muted-foreground',
+};
+
+const skuKey = (sku: string) => sku.trim().toUpperCase();
+
+const fieldValue = (product: Product | undefined, key: PriceField) => Number(product?.[key]) || 0;
+
+const hasPromo = (product: Product) =>
+  product.promoPrice > 0 && product.promoPrice < product.normalPrice;
+
+const formatField = (value: number, isPercent: boolean) =>
+  isPercent ? (value ? `${value}%` : '-') : formatPrice(value);
+
+const buildRow = (current: Product, index: number, latest?: Product): RepriceRow => {
+  if (!latest) {
+    return { index, current, status: 'missing', changedFields: [] };
+  }
+  const source = revertProductOverrides(current);
+  const changedFields = PRICE_FIELDS
+    .map((field) => field.key)
+    .filter((key) => fieldValue(source, key) !== fieldValue(latest, key));
+  const status: RepriceStatus =
+    hasPromo(source) && !hasPromo(latest)
+      ? 'expired'
+      : changedFields.length > 0
+        ? 'changed'
+        : 'unchanged';
+  return { index, current, latest, status, changedFields };
+};
+
+const applyLatestPrices = (current: Product, latest: Product): Product =>
+  refreshProductSource(
+    current,
+    Object.fromEntries(REPRICED_FIELDS.map((key) => [key, latest[key]])) as Partial<Product>
+  );
+
+export const RepriceDialog = ({ products, onApply, disabled = false }: RepriceDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<RepriceRow[]>([]);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const pendingRows = rows.filter((row) => row.status === 'changed' || row.status === 'expired');
+  const flaggedCount = rows.filter((row) => row.status === 'expired' || row.status === 'missing').length;
+
+  const loadPrices = async () => {
+    const targets = products
+      .map((product, index) => ({ product, index }))
+      .filter(({ product }) => !product.isCustom);
+    if (targets.length === 0) {
+      setRows([]);
+      setAccepted(new Set());
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { products: latest } = await fetchProductsBySkus(targets.map(({ product }) => product.sku));
+      const latestByKey = new Map(latest.map((product) => [skuKey(product.sku), product]));
+      const nextRows = targets.map(({ product, index }) =>
+        buildRow(product, index, latestByKey.get(skuKey(product.sku)))
+      );
+      setRows(nextRows);
+      setAccepted(new Set(
+        nextRows
+          .filter((row) => row.status === 'changed' || row.status === 'expired')
+          .map((row) => row.index)
+      ));
+    } catch (error) {
+      console.error('Failed to refresh prices:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil harga terbaru');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const updates = new Map(
+      rows
+        .filter((row) => row.latest && accepted.has(row.index))
+        .map((row) => [row.index, applyLatestPrices(row.current, row.latest as Product)])
+    );
+    if (updates.size === 0) {
+      toast.error('Tidak ada perubahan yang dipilih');
+      return;
+    }
+    onApply(products.map((product, index) => updates.get(index) ?? product));
+    toast.success(`Harga ${updates.size} produk diperbarui`);
+    setOpen(false);
+  };
+
+  const renderFieldCell = (row: RepriceRow, field: (typeof PRICE_FIELDS)[number]) => {
+    const oldValue = fieldValue(revertProductOverrides(row.current), field.key);
+    if (!row.latest || !row.changedFields.includes(field.key)) {
+      return <span>{formatField(oldValue, field.isPercent)}</span>;
+    }
+    return (
+      <span className="whitespace-nowrap">
+        <span className="line-through text-muted-foreground">{formatField(oldValue, field.isPercent)}</span>
+        <span className="ml-1 font-medium">{formatField(fieldValue(row.latest, field.key), field.isPercent)}</span>
+      </span>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) {
+          loadPrices();
+        } else {
+          setRows([]);
+          setAccepted(new Set());
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <button
+          className="w-full py-2.5 border border-dashed border-border rounded-lg text-sm text-muted-foreground hover:border-primary hover:text-primary transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+          disabled={disabled || products.length === 0}
+        >
+          <RefreshCw className="w-4 h-4" />
+          Perbarui Harga
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Perbarui Harga</DialogTitle>
+          <DialogDescription>
+            Bandingkan harga tersimpan dengan harga terbaru di database. Produk custom tidak ikut diperbarui.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Mengambil harga terbaru...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Tidak ada produk untuk diperbarui</div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Berubah {pendingRows.length} · Perlu dicek {flaggedCount} · Total {rows.length}
+            </p>
+            <div className="max-h-96 overflow-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Nama</TableHead>
+                    {PRICE_FIELDS.map((field) => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.index}>
+                      <TableCell>
+                        <Checkbox
+                          checked={accepted.has(row.index)}
+                          disabled={!row.latest || row.status === 'unchanged'}
+                          onCheckedChange={(checked) => toggleRow(row.index, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{row.current.sku}</TableCell>
+                      <TableCell className="text-xs max-w-[160px] truncate">{row.current.name}</TableCell>
+                      {PRICE_FIELDS.map((field) => (
+                        <TableCell key={field.key} className="text-xs">
+                          {renderFieldCell(row, field)}
+                        </TableCell>
+                      ))}
+                      <TableCell className={`text-xs font-medium ${statusClass[row.status]}`}>
+                        {statusLabel[row.status]}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleApply} disabled={isLoading || accepted.size === 0} className="w-full">
+          <Check className="w-4 h-4 mr-2" />
+          Terapkan {accepted.size} Perubahan
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,244 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSpreadsheet, Plus, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Product } from '@/data/products';
+import { fetchProductsBySkus } from '@/lib/productApi';
+import { parseSkuText, readSkuFile } from '@/lib/skuImport';
+
+const MAX_IMPORT_SKUS = 500;
+
+type ImportStatus = 'found' | 'missing' | 'duplicate';
+
+interface ImportRow {
+  sku: string;
+  status: ImportStatus;
+  product?: Product;
+  note?: string;
+}
+
+interface SKUBulkImportProps {
+  existingSkus: string[];
+  onImport: (products: Product[]) => void;
+  disabled?: boolean;
+}
+
+const statusLabel: Record<ImportStatus, string> = {
+  found: 'Ditemukan',
+  missing: 'Tidak ditemukan',
+  duplicate: 'Duplikat',
+};
+
+const statusClass: Record<ImportStatus, string> = {
+  found: 'text-success',
+  missing: 'text-destructive',
+  duplicate: 'text-muted-foreground',
+};
+
+const skuKey = (sku: string) => sku.trim().toUpperCase();
+
+export const SKUBulkImport = ({ existingSkus, onImport, disabled = false }: SKUBulkImportProps) => {
+  const [open, setOpen] = useState(false);
+  const [pasteInput, setPasteInput] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileSkus, setFileSkus] = useState<string[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const foundRows = rows.filter((row) => row.status === 'found');
+  const missingCount = rows.filter((row) => row.status === 'missing').length;
+  const duplicateCount = rows.filter((row) => row.status === 'duplicate').length;
+
+  const reset = () => {
+    setPasteInput('');
+    setFileName(null);
+    setFileSkus([]);
+    setRows([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const skus = await readSkuFile(file);
+      if (skus.length === 0) {
+        toast.error('Tidak ada SKU di file');
+        return;
+      }
+      setFileName(file.name);
+      setFileSkus(skus);
+      setRows([]);
+    } catch (error) {
+      console.error('Failed to read SKU file:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal membaca file');
+    }
+  };
+
+  const handleResolve = async () => {
+    const requested = [...fileSkus, ...parseSkuText(pasteInput)];
+    if (requested.length === 0) {
+      toast.error('Masukkan SKU terlebih dahulu');
+      return;
+    }
+    if (requested.length > MAX_IMPORT_SKUS) {
+      toast.error(`Maksimal ${MAX_IMPORT_SKUS} SKU per import`);
+      return;
+    }
+
+    const existing = new Set(existingSkus.map(skuKey));
+    const seen = new Set<string>();
+    const pending: string[] = [];
+    const nextRows: ImportRow[] = requested.map((sku) => {
+      const key = skuKey(sku);
+      if (existing.has(key)) {
+        return { sku, status: 'duplicate', note: 'Sudah ada di daftar' };
+      }
+      if (seen.has(key)) {
+        return { sku, status: 'duplicate', note: 'SKU ganda di input' };
+      }
+      seen.add(key);
+      pending.push(sku);
+      return { sku, status: 'missing' };
+    });
+
+    setIsResolving(true);
+    try {
+      const { products } = await fetchProductsBySkus(pending);
+      const productsByKey = new Map(products.map((product) => [skuKey(product.sku), product]));
+      setRows(nextRows.map((row) => {
+        if (row.status === 'duplicate') return row;
+        const product = productsByKey.get(skuKey(row.sku));
+        return product
+          ? { ...row, status: 'found', product }
+          : { ...row, status: 'missing', note: 'SKU tidak ditemukan' };
+      }));
+    } catch (error) {
+      console.error('Failed to resolve SKUs:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data produk');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleImport = () => {
+    const products = foundRows.map((row) => row.product).filter(Boolean) as Product[];
+    if (products.length === 0) {
+      toast.error('Tidak ada produk untuk ditambahkan');
+      return;
+    }
+    onImport(products);
+    toast.success(`${products.length} produk ditambahkan`);
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <button
+          className="w-full py-2.5 border border-dashed border-border rounded-lg text-sm text-muted-foreground hover:border-primary hover:text-primary transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4" />
+          Tambah SKU (Bulk)
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import SKU</DialogTitle>
+          <DialogDescription>
+            Upload file CSV/XLSX atau tempel daftar SKU (satu per baris). Maksimal {MAX_IMPORT_SKUS} SKU.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>File SKU</Label>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+                <FileSpreadsheet className="w-4 h-4" />
+                Pilih File
+              </Button>
+              <span className="text-xs text-muted-foreground truncate">
+                {fileName ? `${fileName} (${fileSkus.length} SKU)` : 'CSV, TXT atau XLSX'}
+              </span>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bulk-sku-input">Tempel SKU</Label>
+            <Textarea
+              id="bulk-sku-input"
+              placeholder={'10012345\n10012346\n10012347'}
+              value={pasteInput}
+              onChange={(e) => setPasteInput(e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <Button onClick={handleResolve} disabled={isResolving} className="w-full">
+            <Search className="w-4 h-4 mr-2" />
+            {isResolving ? 'Mencari...' : 'Cek SKU'}
+          </Button>
+
+          {rows.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Ditemukan {foundRows.length} · Tidak ditemukan {missingCount} · Duplikat {duplicateCount}
+              </p>
+              <div className="max-h-64 overflow-auto rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Nama</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={`${row.sku}-${index}`}>
+                        <TableCell className="font-mono text-xs">{row.sku}</TableCell>
+                        <TableCell className="text-xs">{row.product?.name ?? row.note ?? '-'}</TableCell>
+                        <TableCell className={`text-xs font-medium ${statusClass[row.status]}`}>
+                          {statusLabel[row.status]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ) : null}
+
+          <Button onClick={handleImport} disabled={foundRows.length === 0} className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            Tambahkan {foundRows.length} Produk
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
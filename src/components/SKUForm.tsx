@@ -1,25 +1,34 @@
 import { useEffect, useState } from 'react';
-import { Product, CustomPriceOption, searchProduct, formatPrice } from '@/data/products';
+import { Product, CustomPriceOption, MAX_PRODUCT_COPIES, searchProduct, formatPrice, getProductCopies } from '@/data/products';
 import { fetchBrandSegments, fetchProductBySku, searchProducts, ProductSuggestion } from '@/lib/productApi';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Trash2, Plus } from 'lucide-react';
+import { Search, Trash2, Plus, Pencil, Copy, GripVertical } from 'lucide-react';
 import { toast } from 'sonner';
-import { Brand } from '@/data/brands';
+import { Brand, findBrandBySegment } from '@/data/brands';
+import { SKUBulkImport } from './SKUBulkImport';
+import { RepriceDialog } from './RepriceDialog';
+import { ProductEditPanel } from './ProductEditPanel';
+import { getOverriddenFields, getProductBrandLabel } from '@/lib/productOverrides';
+import { getQueueId } from '@/lib/printQueue';
 
 interface SKUFormProps {
   products: Product[];
   onAddProduct: (product: Product) => void;
-  onRemoveProduct: (sku: string) => void;
-  onSelectProduct?: (sku: string) => void;
-  activeSku?: string;
+  onAddProducts: (products: Product[]) => void;
+  onUpdateProducts: (products: Product[]) => void;
+  onRemoveProduct: (queueId: string) => void;
+  /** Moves an entry within the print queue; page order follows queue order */
+  onMoveProduct?: (fromIndex: number, toIndex: number) => void;
+  onSelectProduct?: (queueId: string) => void;
+  activeQueueId?: string;
   brands: Brand[];
   disabled?: boolean;
 }
 
-export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProduct, activeSku, brands, disabled = false }: SKUFormProps) => {
+export const SKUForm = ({ products, onAddProduct, onAddProducts, onUpdateProducts, onRemoveProduct, onMoveProduct, onSelectProduct, activeQueueId, brands, disabled = false }: SKUFormProps) => {
   const [mode, setMode] = useState<'sku' | 'custom'>('sku');
   const [skuInput, setSkuInput] = useState('');
   const [skuSuggestions, setSkuSuggestions] = useState<ProductSuggestion[]>([]);
@@ -47,6 +56,9 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
   const [extraDiscountInput, setExtraDiscountInput] = useState('');
   const [memberDiscountInput, setMemberDiscountInput] = useState('');
   const [upToInput, setUpToInput] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   const findBrand = (id?: string) => brands.find((b) => b.id === id);
   const normalizeSku = (value: string) => value.replace(/\s+/g, '');
@@ -112,6 +124,47 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
     };
   }, [brandOptions.length, customBrandInput, mode]);
 
+  const enrichProduct = (product: Product): Product => {
+    // Registered brand for the product's segment; products without a segment get the house brand
+    const selectedBrand = product.brandSegment
+      ? findBrandBySegment(brands, product.brandSegment)
+      : findBrand(brands[0]?.id);
+
+    return {
+      ...product,
+      brandId: selectedBrand?.id,
+      brand: product.brandSegment || selectedBrand?.name,
+      brandLogoText: selectedBrand?.logoText,
+      brandLogoUrl: product.brandLogoUrl || selectedBrand?.logoData,
+      brandColor: selectedBrand?.logoBg,
+      brandTextColor: selectedBrand?.logoTextColor,
+      discountType: 'percent',
+    };
+  };
+
+  const handleProductEdit = (edited: Product) => {
+    const editedId = getQueueId(edited);
+    onUpdateProducts(products.map((product) => (getQueueId(product) === editedId ? edited : product)));
+  };
+
+  const handleCopiesChange = (product: Product, copies: number) => {
+    if (!Number.isFinite(copies)) return;
+    const clamped = Math.min(MAX_PRODUCT_COPIES, Math.max(1, Math.floor(copies)));
+    handleProductEdit({ ...product, copies: clamped > 1 ? clamped : undefined });
+  };
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const canReorder = Boolean(onMoveProduct) && !disabled && products.length > 1;
+
+  const handleBulkImport = (imported: Product[]) => {
+    if (disabled) return;
+    onAddProducts(imported.map(enrichProduct));
+  };
+
   const handleSearch = async (overrideSku?: string) => {
     if (disabled) return;
     const skuValue = normalizeSku(overrideSku ?? skuInput);
@@ -128,32 +181,16 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
         product = searchProduct(skuValue);
       }
       if (product) {
-        const exists = products.find((p) => p.sku === product.sku);
-        if (exists) {
-          toast.error('Produk sudah ditambahkan');
-          return;
-        }
-        const selectedBrand = findBrand(brands[0]?.id);
-        const brandName = selectedBrand?.name;
-        const brandSource = product.brandSegment || brandName;
-        const brandSlug = brandSource ? brandSource.toUpperCase().replace(/\s+/g, '_') : undefined;
-        const brandLogoUrl = product.brandLogoUrl || (brandSlug ? `/brands/${brandSlug}.png` : selectedBrand?.logoData);
-
-        const enrichedProduct: Product = {
-          ...product,
-          brandId: selectedBrand?.id,
-          brand: product.brandSegment || brandName,
-          brandLogoText: selectedBrand?.logoText,
-          brandLogoUrl,
-          brandColor: selectedBrand?.logoBg,
-          brandTextColor: selectedBrand?.logoTextColor,
-          discountType: 'percent',
-        };
-
-        onAddProduct(enrichedProduct);
+        // The same SKU may be queued again, e.g. as a second size or with different overrides
+        const exists = products.some((p) => p.sku === product.sku);
+        onAddProduct(enrichProduct(product));
         setSkuInput('');
         setSkuSuggestions([]);
-        toast.success(`Produk ${product.name} ditambahkan`);
+        toast.success(
+          exists
+            ? `Produk ${product.name} ditambahkan lagi sebagai entri terpisah`
+            : `Produk ${product.name} ditambahkan`
+        );
       } else {
         toast.error('SKU tidak ditemukan');
       }
@@ -201,10 +238,7 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
   const handleAddCustomProduct = () => {
     if (disabled) return;
     const brandName = customBrandInput.trim();
-    const brandSlug = brandName
-      ? brandName.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '')
-      : undefined;
-    const brandLogoUrl = brandSlug ? `/brands/${brandSlug}.png` : undefined;
+    const registeredBrand = findBrandBySegment(brands, brandName);
     const safeName = nameInput.trim() || 'Produk Custom';
 
     const normalPrice = normalPriceInput ? Number(normalPriceInput) : 0;
@@ -316,9 +350,12 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
     const product: Product = {
       sku: id,
       name: safeName,
-      brandId: brandSlug,
+      brandId: registeredBrand?.id,
       brand: brandName || undefined,
-      brandLogoUrl,
+      brandLogoText: registeredBrand?.logoText,
+      brandLogoUrl: registeredBrand?.logoData,
+      brandColor: registeredBrand?.logoBg,
+      brandTextColor: registeredBrand?.logoTextColor,
       description: descriptionInput.trim() || undefined,
       uom: uomInput.trim() || undefined,
       customPriceOptions: customPriceOptions.length > 0 ? customPriceOptions : undefined,
@@ -343,6 +380,12 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
     <div className="space-y-3">
       <h3 className="section-title">Produk / SKU</h3>
 
+      {disabled && (
+        <p className="text-xs text-muted-foreground">
+          Template ini tidak memakai data produk.
+        </p>
+      )}
+
       {/* Brand Selector removed */}
 
       {/* Mode Selector */}
@@ -412,6 +455,16 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
               </div>
             </div>
           ) : null}
+          <SKUBulkImport
+            existingSkus={products.map((product) => product.sku)}
+            onImport={handleBulkImport}
+            disabled={disabled}
+          />
+          <RepriceDialog
+            products={products}
+            onApply={onUpdateProducts}
+            disabled={disabled}
+          />
         </>
       ) : (
         <>
@@ -618,36 +671,75 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
 
       {/* Product List */}
       <div className="space-y-2">
-        {products.map((product) => {
-          const isActive = activeSku === product.sku;
+        {products.map((product, index) => {
+          const queueId = getQueueId(product);
+          const isActive = activeQueueId === queueId;
+          const copies = getProductCopies(product);
+          const isDropTarget = dropIndex === index && dragIndex !== null && dragIndex !== index;
+          const isEditing = editingId === queueId && !disabled;
+          const brandLabel = getProductBrandLabel(product);
+          const overriddenCount = getOverriddenFields(product).length;
           return (
           <div
-            key={product.sku}
-            className={`product-card animate-fade-in transition-colors ${onSelectProduct && !disabled ? 'cursor-pointer hover:border-primary/60' : ''} ${isActive ? 'border-primary/70 ring-2 ring-primary/20' : ''}`}
+            key={queueId}
+            className={`product-card animate-fade-in transition-colors ${onSelectProduct && !disabled ? 'cursor-pointer hover:border-primary/60' : ''} ${isActive ? 'border-primary/70 ring-2 ring-primary/20' : ''} ${isDropTarget ? 'border-primary border-dashed' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+            draggable={canReorder && !isEditing}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(event) => {
+              if (dragIndex === null) return;
+              event.preventDefault();
+              event.dataTransfer.dropEffect = 'move';
+              setDropIndex(index);
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (dragIndex !== null) {
+                onMoveProduct?.(dragIndex, index);
+              }
+              resetDrag();
+            }}
+            onDragEnd={resetDrag}
             onClick={() => {
               if (disabled) return;
-              onSelectProduct?.(product.sku);
+              onSelectProduct?.(queueId);
             }}
             onKeyDown={(event) => {
               if (disabled) return;
               if (!onSelectProduct) return;
               if (event.key === 'Enter' || event.key === ' ') {
                 event.preventDefault();
-                onSelectProduct(product.sku);
+                onSelectProduct(queueId);
               }
             }}
             role={onSelectProduct && !disabled ? 'button' : undefined}
             tabIndex={onSelectProduct && !disabled ? 0 : undefined}
           >
             <div className="flex items-start justify-between">
+              {canReorder && (
+                <GripVertical
+                  className="w-4 h-4 mr-1.5 mt-0.5 shrink-0 text-muted-foreground cursor-grab"
+                  aria-label="Geser untuk mengubah urutan"
+                />
+              )}
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <span className="text-xs font-mono bg-muted px-1.5 py-0.5 rounded text-muted-foreground">
                     {product.sku}
                   </span>
                   <span className="text-sm font-medium text-foreground truncate">
-                    {product.brand ? `${product.brand} - ${product.name}` : product.name}
+                    {brandLabel ? `${brandLabel} - ${product.name}` : product.name}
                   </span>
+                  {overriddenCount > 0 && (
+                    <span
+                      className="shrink-0 text-[10px] font-medium text-primary bg-primary/10 px-1.5 py-0.5 rounded"
+                      title={`${overriddenCount} data diubah manual`}
+                    >
+                      Diubah
+                    </span>
+                  )}
                 </div>
                 <div className="text-xs text-muted-foreground space-y-0.5">
                   {product.customPriceOptions && product.customPriceOptions.length > 0 ? (
@@ -671,31 +763,74 @@ export const SKUForm = ({ products, onAddProduct, onRemoveProduct, onSelectProdu
                     <p>Diskon Member: <span className="font-semibold text-success">{product.memberDiscount}%</span></p>
                   ) : null}
                 </div>
+                <label
+                  className="mt-1.5 inline-flex items-center gap-1.5 text-xs text-muted-foreground"
+                  onClick={(event) => event.stopPropagation()}
+                >
+                  Jumlah cetak
+                  <Input
+                    type="number"
+                    min="1"
+                    max={MAX_PRODUCT_COPIES}
+                    className="h-7 w-16 text-xs"
+                    value={copies}
+                    onChange={(e) => handleCopiesChange(product, Number(e.target.value))}
+                    onKeyDown={(event) => event.stopPropagation()}
+                    disabled={disabled}
+                  />
+                </label>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Tambah salinan tag ini"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    if (disabled) return;
+                    handleCopiesChange(product, copies + 1);
+                  }}
+                  className="text-muted-foreground hover:text-primary"
+                  disabled={disabled || copies >= MAX_PRODUCT_COPIES}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={isEditing ? 'Tutup edit' : 'Edit produk'}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    if (disabled) return;
+                    setEditingId(isEditing ? null : queueId);
+                  }}
+                  className={isEditing ? 'text-primary' : 'text-muted-foreground hover:text-primary'}
+                  disabled={disabled}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    if (disabled) return;
+                    onRemoveProduct(queueId);
+                  }}
+                  className="text-muted-foreground hover:text-destructive"
+                  disabled={disabled}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
               </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={(event) => {
-                  event.stopPropagation();
-                  if (disabled) return;
-                  onRemoveProduct(product.sku);
-                }}
-                className="text-muted-foreground hover:text-destructive"
-                disabled={disabled}
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
             </div>
+            {isEditing && (
+              <ProductEditPanel product={product} onChange={handleProductEdit} disabled={disabled} />
+            )}
           </div>
         );
         })}
       </div>
-
-      {/* Add Bulk Button 
-      <button className="w-full py-2.5 border border-dashed border-border rounded-lg text-sm text-muted-foreground hover:border-primary hover:text-primary transition-colors flex items-center justify-center gap-1.5">
-        <Plus className="w-4 h-4" />
-        Tambah SKU (Bulk)
-      </button>*/}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ChevronDown } from 'lucide-react';
+import { Site, fetchSites } from '@/lib/siteApi';
+
+interface SiteScopeSelectProps {
+  id?: string;
+  /** Empty means every site */
+  value: string[];
+  onChange: (siteCodes: string[]) => void;
+  disabled?: boolean;
+}
+
+export const SiteScopeSelect = ({ id, value, onChange, disabled = false }: SiteScopeSelectProps) => {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    fetchSites()
+      .then((result) => {
+        if (isActive) setSites(result);
+      })
+      .catch((error) => {
+        console.error('Failed to load sites:', error);
+        if (isActive) setLoadError(error instanceof Error ? error.message : 'Gagal memuat daftar site');
+      });
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  const isAllSites = value.length === 0;
+  const summary = isAllSites
+    ? 'Semua site'
+    : value.length === 1
+      ? sites.find((site) => site.code === value[0])?.name ?? value[0]
+      : `${value.length} site`;
+
+  const toggleSite = (code: string, checked: boolean) => {
+    onChange(checked ? [...value, code] : value.filter((item) => item !== code));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button id={id} variant="outline" className="w-full justify-between font-normal" disabled={disabled}>
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="w-4 h-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <div className="flex items-center space-x-2 rounded px-2 py-1.5">
+          <Checkbox
+            id={`${id ?? 'site-scope'}-all`}
+            checked={isAllSites}
+            onCheckedChange={(checked) => {
+              if (checked === true) onChange([]);
+            }}
+          />
+          <Label htmlFor={`${id ?? 'site-scope'}-all`} className="text-sm cursor-pointer">
+            Semua site
+          </Label>
+        </div>
+        <div className="h-px bg-border my-1" />
+        {loadError ? (
+          <p className="px-2 py-1.5 text-xs text-destructive">{loadError}</p>
+        ) : sites.length === 0 ? (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Memuat site...</p>
+        ) : (
+          <div className="max-h-56 overflow-y-auto">
+            {sites.map((site) => {
+              const checkboxId = `${id ?? 'site-scope'}-${site.code}`;
+              return (
+                <div key={site.code} className="flex items-center space-x-2 rounded px-2 py-1.5">
+                  <Checkbox
+                    id={checkboxId}
+                    checked={value.includes(site.code)}
+                    onCheckedChange={(checked) => toggleSite(site.code, checked === true)}
+                  />
+                  <Label htmlFor={checkboxId} className="text-sm cursor-pointer truncate">
+                    {site.name} <span className="text-muted-foreground">({site.code})</span>
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
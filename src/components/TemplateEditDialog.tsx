@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImageUp, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  BRAND_DISPLAY_OPTIONS,
+  BrandDisplay,
+  TEMPLATE_KIND_OPTIONS,
+  Template,
+  TemplateKind,
+  getBrandDisplay,
+  getTemplateKind,
+} from '@/data/templates';
+import { DEFAULT_POP_LAYOUT_ID, PopTheme } from '@/lib/popLayouts';
+import { usePopLayouts } from '@/hooks/use-pop-layouts';
+import { TemplateUpdatePayload, templateStorage, toTemplate } from '@/lib/templateStorage';
+import { SiteScopeSelect } from './SiteScopeSelect';
+import { TemplateThemeFields } from './TemplateThemeFields';
+
+interface TemplateEditDialogProps {
+  template: Template | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (template: Template) => void;
+}
+
+export const TemplateEditDialog = ({ template, onOpenChange, onSaved }: TemplateEditDialogProps) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [tags, setTags] = useState('');
+  const [activeFrom, setActiveFrom] = useState('');
+  const [activeUntil, setActiveUntil] = useState('');
+  const [kind, setKind] = useState<TemplateKind>('product');
+  const [brandDisplay, setBrandDisplay] = useState<BrandDisplay>('logo');
+  const [popLayout, setPopLayout] = useState(DEFAULT_POP_LAYOUT_ID);
+  const [theme, setTheme] = useState<PopTheme>({});
+  const popLayouts = usePopLayouts();
+  const [archived, setArchived] = useState(false);
+  const [siteCodes, setSiteCodes] = useState<string[]>([]);
+  const [imageData, setImageData] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setName(template?.name ?? '');
+    setDescription(template?.description ?? '');
+    setCategory(template?.category ?? '');
+    setTags((template?.tags ?? []).join(', '));
+    setActiveFrom(template?.activeFrom ?? '');
+    setActiveUntil(template?.activeUntil ?? '');
+    setKind(getTemplateKind(template));
+    setBrandDisplay(getBrandDisplay(template));
+    setPopLayout(template?.popLayout || DEFAULT_POP_LAYOUT_ID);
+    setTheme(template?.theme ?? {});
+    setArchived(template?.archived === true);
+    setSiteCodes(template?.siteCodes ?? []);
+    setImageData(null);
+  }, [template]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('File harus berupa gambar (JPG, PNG, etc)');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error('Ukuran file maksimal 5MB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => setImageData(event.target?.result as string);
+    reader.onerror = () => toast.error('Gagal membaca file');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!template) return;
+    if (!name.trim()) {
+      toast.error('Nama template harus diisi');
+      return;
+    }
+    if (activeFrom && activeUntil && activeFrom > activeUntil) {
+      toast.error('Tanggal mulai harus sebelum tanggal berakhir');
+      return;
+    }
+
+    const payload: TemplateUpdatePayload = {
+      name: name.trim(),
+      description: description.trim(),
+      category: category.trim(),
+      tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      activeFrom,
+      activeUntil,
+      kind,
+      brandDisplay,
+      // A layout deleted from the registry since it was picked goes back to the standard one
+      popLayout: popLayouts.some((layout) => layout.id === popLayout) ? popLayout : DEFAULT_POP_LAYOUT_ID,
+      theme: Object.values(theme).some(Boolean) ? theme : null,
+      archived,
+      siteCodes,
+    };
+    if (imageData) {
+      payload.imageData = imageData;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await templateStorage.updateTemplate(template.id, payload);
+      toast.success(`Template "${updated.name}" diperbarui`);
+      onSaved(toTemplate(updated));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to update template:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal memperbarui template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const previewUrl = imageData ?? template?.imageUrl;
+
+  return (
+    <Dialog open={template !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Edit Template</DialogTitle>
+          <DialogDescription>
+            Perubahan tetap memakai ID yang sama, jadi sesi dan proyek tersimpan tetap menemukan template ini.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Gambar Template</Label>
+            {previewUrl ? (
+              <img src={previewUrl} alt={name} className="w-full h-40 object-contain bg-muted rounded-lg border" />
+            ) : null}
+            <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <ImageUp className="w-4 h-4 mr-2" />
+              {imageData ? 'Pilih Gambar Lain' : 'Ganti Gambar'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-edit-name">Nama Template</Label>
+            <Input id="template-edit-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-edit-desc">Deskripsi</Label>
+            <Input id="template-edit-desc" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="template-edit-category">Kategori</Label>
+              <Input
+                id="template-edit-category"
+                placeholder="e.g. Imlek"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-edit-kind">Jenis Template</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as TemplateKind)}>
+                <SelectTrigger id="template-edit-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_KIND_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {kind === 'product' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="template-edit-brand-display">Tampilan Brand</Label>
+                <Select value={brandDisplay} onValueChange={(value) => setBrandDisplay(value as BrandDisplay)}>
+                  <SelectTrigger id="template-edit-brand-display">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BRAND_DISPLAY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-edit-pop-layout">Layout POP</Label>
+                <Select value={popLayout} onValueChange={setPopLayout}>
+                  <SelectTrigger id="template-edit-pop-layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {popLayouts.map((layout) => (
+                      <SelectItem key={layout.id} value={layout.id}>
+                        {layout.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {kind === 'product' && <TemplateThemeFields value={theme} onChange={setTheme} />}
+
+          <div className="space-y-2">
+            <Label htmlFor="template-edit-tags">Tag</Label>
+            <Input
+              id="template-edit-tags"
+              placeholder="e.g. angpao, imlek, merah"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-edit-sites">Site</Label>
+            <SiteScopeSelect id="template-edit-sites" value={siteCodes} onChange={setSiteCodes} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Periode Aktif (opsional)</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                type="date"
+                aria-label="Aktif mulai"
+                value={activeFrom}
+                max={activeUntil || undefined}
+                onChange={(e) => setActiveFrom(e.target.value)}
+              />
+              <Input
+                type="date"
+                aria-label="Aktif sampai"
+                value={activeUntil}
+                min={activeFrom || undefined}
+                onChange={(e) => setActiveUntil(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Di luar periode ini template hanya terlihat oleh admin.
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="template-edit-archived"
+              checked={archived}
+              onCheckedChange={(checked) => setArchived(checked === true)}
+            />
+            <Label htmlFor="template-edit-archived" className="text-sm cursor-pointer">
+              Arsipkan (disembunyikan dari daftar template)
+            </Label>
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving || !template || !name.trim()} className="w-full">
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Menyimpan...' : 'Simpan Perubahan'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
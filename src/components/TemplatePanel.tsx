@@ -1,10 +1,17 @@
-import { useEffect, useState } from 'react';
-import { Template } from '@/data/templates';
-import { templateStorage, CustomTemplate } from '@/lib/templateStorage';
+import { useCallback, useEffect, useState } from 'react';
+import { Template, getTemplateKind, getTemplateKindLabel, isTemplateActive } from '@/data/templates';
+import { templateStorage, toTemplate } from '@/lib/templateStorage';
 import { TemplateUpload } from './TemplateUpload';
-import { Check, Trash2 } from 'lucide-react';
+import { TemplateZoneEditor } from './TemplateZoneEditor';
+import { TemplateEditDialog } from './TemplateEditDialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, LayoutTemplate, Pencil, Search, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 
+const ALL_CATEGORIES = 'all';
+const SEARCH_DELAY = 300;
+
 interface TemplatePanelProps {
   templates: Template[];
   selectedTemplate: string;
@@ -20,31 +27,37 @@ export const TemplatePanel = ({
 }: TemplatePanelProps) => {
   const [customTemplates, setCustomTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
+  const [zoneTemplate, setZoneTemplate] = useState<Template | null>(null);
+  const [editTemplate, setEditTemplate] = useState<Template | null>(null);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [categories, setCategories] = useState<string[]>([]);
 
-  const loadCustomTemplates = async () => {
+  const loadCustomTemplates = useCallback(async () => {
     try {
-      const stored = await templateStorage.getTemplates();
-      const converted: Template[] = stored.map((t: CustomTemplate) => ({
-        id: t.id,
-        name: t.name,
-        description: t.description,
-        thumbnail: t.name.charAt(0).toUpperCase(),
-        layout: 'centered' as const,
-        type: 'custom' as const,
-        imageUrl: t.imageUrl,
-      }));
-      setCustomTemplates(converted);
+      // Filtering happens on the server; admins also get archived, out-of-season and other sites' templates
+      const [stored, storedCategories] = await Promise.all([
+        templateStorage.getTemplates({
+          includeArchived: isAdmin,
+          search,
+          category: category === ALL_CATEGORIES ? undefined : category,
+        }),
+        templateStorage.getCategories(),
+      ]);
+      setCustomTemplates(stored.map(toTemplate));
+      setCategories(storedCategories);
     } catch (error) {
       console.error('Failed to load custom templates:', error);
       toast.error('Gagal memuat template custom');
     } finally {
       setLoading(false);
     }
-  };
+  }, [category, isAdmin, search]);
 
   useEffect(() => {
-    loadCustomTemplates();
-  }, []);
+    const timer = window.setTimeout(loadCustomTemplates, SEARCH_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [loadCustomTemplates]);
 
   const handleDeleteTemplate = async (templateId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -69,22 +82,67 @@ export const TemplatePanel = ({
     }
   };
 
-  const allTemplates = [...templates, ...customTemplates];
+  const handleTemplateSaved = async (template: Template) => {
+    await loadCustomTemplates();
+    if (selectedTemplate === template.id) {
+      onSelectTemplateData(template);
+    }
+  };
+
+  const searchText = search.trim().toLowerCase();
+  const builtInTemplates = category === ALL_CATEGORIES
+    ? templates.filter((template) => !searchText || template.name.toLowerCase().includes(searchText))
+    : [];
+  const allTemplates = [...builtInTemplates, ...customTemplates];
 
   return (
     <div className="space-y-3">
       <h3 className="section-title">Template</h3>
 
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Cari template..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        {categories.length > 0 && (
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>Semua Kategori</SelectItem>
+              {categories.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {item}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
       {loading ? (
         <div className="text-center py-4 text-sm text-muted-foreground">
           Loading templates...
         </div>
       ) : (
         <>
+          {allTemplates.length === 0 && (
+            <div className="text-center py-4 text-sm text-muted-foreground">
+              Template tidak ditemukan
+            </div>
+          )}
           <div className="grid grid-cols-3 gap-2">
             {allTemplates.map((template) => {
               const isSelected = selectedTemplate === template.id;
               const isCustom = template.type === 'custom';
+              // Only admins receive out-of-season templates
+              const isInactive = !isTemplateActive(template);
 
               return (
                 <button
@@ -92,7 +150,7 @@ export const TemplatePanel = ({
                   onClick={() => {
                     onSelectTemplateData(template);
                   }}
-                  className={`template-card ${isSelected ? 'selected' : ''} relative group`}
+                  className={`template-card ${isSelected ? 'selected' : ''} ${template.archived || isInactive ? 'opacity-60' : ''} relative group`}
                 >
                   {isSelected && (
                     <div className="absolute top-1 left-1 w-5 h-5 bg-primary rounded flex items-center justify-center z-10">
@@ -110,6 +168,32 @@ export const TemplatePanel = ({
                     </button>
                   )}
 
+                  {isCustom && isAdmin && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditTemplate(template);
+                      }}
+                      className="absolute top-8 right-1 w-6 h-6 bg-secondary text-secondary-foreground rounded flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                      title="Edit template"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  )}
+
+                  {isCustom && isAdmin && getTemplateKind(template) === 'product' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setZoneTemplate(template);
+                      }}
+                      className="absolute top-[3.75rem] right-1 w-6 h-6 bg-secondary text-secondary-foreground rounded flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                      title="Atur zona template"
+                    >
+                      <LayoutTemplate className="w-3 h-3" />
+                    </button>
+                  )}
+
                   {/* Template Thumbnail Preview */}
                   {isCustom && template.imageUrl ? (
                     <div className="bg-muted rounded aspect-[3/4] mb-2 overflow-hidden">
@@ -132,7 +216,11 @@ export const TemplatePanel = ({
                     {template.name}
                   </p>
                   {isCustom && (
-                    <span className="text-[10px] text-muted-foreground text-center block">Custom</span>
+                    <span className="text-[10px] text-muted-foreground text-center block">
+                      {getTemplateKindLabel(getTemplateKind(template))}
+                      {template.archived ? ' · Diarsipkan' : isInactive ? ' · Tidak aktif' : ''}
+                      {isAdmin && template.siteCodes?.length ? ` · ${template.siteCodes.length} site` : ''}
+                    </span>
                   )}
                 </button>
               );
@@ -141,6 +229,26 @@ export const TemplatePanel = ({
 
           {/* Upload Button */}
           {isAdmin ? <TemplateUpload onUploadComplete={loadCustomTemplates} /> : null}
+
+          {isAdmin && (
+            <TemplateEditDialog
+              template={editTemplate}
+              onOpenChange={(open) => {
+                if (!open) setEditTemplate(null);
+              }}
+              onSaved={handleTemplateSaved}
+            />
+          )}
+
+          {isAdmin && (
+            <TemplateZoneEditor
+              template={zoneTemplate}
+              onOpenChange={(open) => {
+                if (!open) setZoneTemplate(null);
+              }}
+              onSaved={handleTemplateSaved}
+            />
+          )}
         </>
       )}
     </div>
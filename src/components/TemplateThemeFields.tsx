@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+import { registerUploadedFonts } from '@/lib/fontStorage';
+import {
+  PopBadgeKind,
+  PopTextRole,
+  PopTheme,
+  getBadgeColors,
+  getHeroFill,
+  getPopLayout,
+  getTextStyle,
+} from '@/lib/popLayouts';
+
+interface TemplateThemeFieldsProps {
+  value: PopTheme;
+  onChange: (theme: PopTheme) => void;
+}
+
+type ThemeColorKey = 'brandColor' | 'priceColor' | 'strikeColor' | 'badgeTextColor';
+
+const COLOR_FIELDS: { key: ThemeColorKey; role: PopTextRole; label: string }[] = [
+  { key: 'brandColor', role: 'brand', label: 'Brand' },
+  { key: 'priceColor', role: 'price', label: 'Harga' },
+  { key: 'strikeColor', role: 'strike', label: 'Harga coret' },
+  { key: 'badgeTextColor', role: 'badgeValue', label: 'Angka badge' },
+];
+
+const BADGE_FIELDS: { key: PopBadgeKind; label: string }[] = [
+  { key: 'discountBadge', label: 'Badge diskon' },
+  { key: 'memberBadge', label: 'Badge member' },
+];
+
+// Radix Select rejects empty values, so the built-in font gets its own sentinel
+const DEFAULT_FONT = 'default';
+
+const ColorInput = ({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) => (
+  <input
+    type="color"
+    aria-label={label}
+    className="h-8 w-10 cursor-pointer rounded border border-border bg-transparent"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+  />
+);
+
+/** Font and colour pickers for a product template; unset keys show the built-in colours. */
+export const TemplateThemeFields = ({ value, onChange }: TemplateThemeFieldsProps) => {
+  const [families, setFamilies] = useState<string[]>([]);
+
+  useEffect(() => {
+    registerUploadedFonts().then((fonts) => setFamilies([...new Set(fonts.map((font) => font.family))].sort()));
+  }, []);
+
+  const update = (changes: PopTheme) => onChange({ ...value, ...changes });
+  const standardLayout = getPopLayout();
+  // A family deleted after it was picked stays listed so the stored choice is visible
+  const familyOptions = value.fontFamily && !families.includes(value.fontFamily)
+    ? [value.fontFamily, ...families]
+    : families;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="flex items-center justify-between">
+        <Label>Tema POP</Label>
+        {Object.values(value).some(Boolean) && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange({})}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Bawaan
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="template-theme-font" className="text-xs text-muted-foreground">Font</Label>
+        <Select
+          value={value.fontFamily ?? DEFAULT_FONT}
+          onValueChange={(family) => update({ fontFamily: family === DEFAULT_FONT ? undefined : family })}
+        >
+          <SelectTrigger id="template-theme-font" className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_FONT}>Inter (bawaan)</SelectItem>
+            {familyOptions.map((family) => (
+              <SelectItem key={family} value={family}>
+                {family}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {COLOR_FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            {field.label}
+            <ColorInput
+              label={field.label}
+              value={value[field.key] ?? getTextStyle(standardLayout, field.role).color}
+              onChange={(color) => update({ [field.key]: color })}
+            />
+          </label>
+        ))}
+        {BADGE_FIELDS.map((field) => {
+          const stops = getBadgeColors(field.key, value);
+          return (
+            <div key={field.key} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              {field.label}
+              <div className="flex gap-1">
+                <ColorInput
+                  label={`${field.label} awal`}
+                  value={stops[0]}
+                  onChange={(color) => update({ [field.key]: [color, stops[1]] })}
+                />
+                <ColorInput
+                  label={`${field.label} akhir`}
+                  value={stops[1]}
+                  onChange={(color) => update({ [field.key]: [stops[0], color] })}
+                />
+              </div>
+            </div>
+          );
+        })}
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          Kotak persen besar
+          <ColorInput
+            label="Kotak persen besar"
+            value={getHeroFill(value)}
+            onChange={(color) => update({ heroFill: color })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
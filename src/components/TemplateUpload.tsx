@@ -2,10 +2,13 @@ import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Upload, X, Image as ImageIcon } from 'lucide-react';
 import { toast } from 'sonner';
 import { templateStorage } from '@/lib/templateStorage';
+import { TEMPLATE_KIND_OPTIONS, TemplateKind } from '@/data/templates';
+import { SiteScopeSelect } from './SiteScopeSelect';
 
 interface TemplateUploadProps {
     onUploadComplete: () => void;
@@ -15,6 +18,9 @@ export const TemplateUpload = ({ onUploadComplete }: TemplateUploadProps) => {
     const [open, setOpen] = useState(false);
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
+    const [kind, setKind] = useState<TemplateKind>('product');
+    const [category, setCategory] = useState('');
+    const [siteCodes, setSiteCodes] = useState<string[]>([]);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
     const [imageData, setImageData] = useState<string | null>(null);
     const [uploading, setUploading] = useState(false);
@@ -66,6 +72,9 @@ export const TemplateUpload = ({ onUploadComplete }: TemplateUploadProps) => {
             await templateStorage.uploadTemplate({
                 name: name.trim(),
                 description: description.trim() || 'Custom template',
+                kind,
+                category: category.trim(),
+                siteCodes,
                 imageData,
             });
 
@@ -74,6 +83,9 @@ export const TemplateUpload = ({ onUploadComplete }: TemplateUploadProps) => {
             // Reset form
             setName('');
             setDescription('');
+            setKind('product');
+            setCategory('');
+            setSiteCodes([]);
             setPreviewUrl(null);
             setImageData(null);
             if (fileInputRef.current) {
@@ -167,6 +179,43 @@ export const TemplateUpload = ({ onUploadComplete }: TemplateUploadProps) => {
                         />
                     </div>
 
+                    {/* Template Kind */}
+                    <div className="space-y-2">
+                        <Label htmlFor="template-kind">Jenis Template</Label>
+                        <Select value={kind} onValueChange={(value) => setKind(value as TemplateKind)}>
+                            <SelectTrigger id="template-kind">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {TEMPLATE_KIND_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            {TEMPLATE_KIND_OPTIONS.find((option) => option.value === kind)?.description}
+                        </p>
+                    </div>
+
+                    {/* Template Category */}
+                    <div className="space-y-2">
+                        <Label htmlFor="template-category">Kategori (Optional)</Label>
+                        <Input
+                            id="template-category"
+                            placeholder="e.g. Ramadan"
+                            value={category}
+                            onChange={(e) => setCategory(e.target.value)}
+                        />
+                    </div>
+
+                    {/* Template Sites */}
+                    <div className="space-y-2">
+                        <Label htmlFor="template-sites">Site</Label>
+                        <SiteScopeSelect id="template-sites" value={siteCodes} onChange={setSiteCodes} />
+                    </div>
+
                     {/* Template Description */}
                     <div className="space-y-2">
                         <Label htmlFor="template-desc">Deskripsi (Optional)</Label>
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Template } from '@/data/templates';
+import { templateStorage, toTemplate } from '@/lib/templateStorage';
+import {
+  MIN_ZONE_SIZE,
+  TEMPLATE_ZONE_OPTIONS,
+  TemplateZone,
+  TemplateZoneKey,
+  TemplateZones,
+} from '@/lib/templateZones';
+
+interface TemplateZoneEditorProps {
+  template: Template | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (template: Template) => void;
+}
+
+interface DragState {
+  startX: number;
+  startY: number;
+  zone: TemplateZone;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const roundFraction = (value: number) => Math.round(value * 10000) / 10000;
+
+export const TemplateZoneEditor = ({ template, onOpenChange, onSaved }: TemplateZoneEditorProps) => {
+  const [zones, setZones] = useState<TemplateZones>({});
+  const [activeKey, setActiveKey] = useState<TemplateZoneKey>('brand');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setZones(template?.zones ?? {});
+    setActiveKey('brand');
+    setDrag(null);
+  }, [template]);
+
+  const toFraction = (event: React.PointerEvent) => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: clamp01((event.clientX - rect.left) / rect.width),
+      y: clamp01((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = toFraction(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ startX: point.x, startY: point.y, zone: { x: point.x, y: point.y, width: 0, height: 0 } });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = toFraction(event);
+    if (!point) return;
+    setDrag({
+      ...drag,
+      zone: {
+        x: Math.min(drag.startX, point.x),
+        y: Math.min(drag.startY, point.y),
+        width: Math.abs(point.x - drag.startX),
+        height: Math.abs(point.y - drag.startY),
+      },
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const { zone } = drag;
+    setDrag(null);
+    if (zone.width < MIN_ZONE_SIZE || zone.height < MIN_ZONE_SIZE) return;
+    setZones((prev) => ({
+      ...prev,
+      [activeKey]: {
+        x: roundFraction(zone.x),
+        y: roundFraction(zone.y),
+        width: roundFraction(zone.width),
+        height: roundFraction(zone.height),
+      },
+    }));
+  };
+
+  const removeZone = (key: TemplateZoneKey) => {
+    setZones((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!template) return;
+    setIsSaving(true);
+    try {
+      const updated = await templateStorage.updateTemplateZones(template.id, zones);
+      toast.success('Zona template disimpan');
+      onSaved(toTemplate(updated));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save template zones:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan zona template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const zoneStyle = (zone: TemplateZone, color: string): React.CSSProperties => ({
+    left: `${zone.x * 100}%`,
+    top: `${zone.y * 100}%`,
+    width: `${zone.width * 100}%`,
+    height: `${zone.height * 100}%`,
+    borderColor: color,
+    backgroundColor: `${color}22`,
+  });
+
+  const activeColor = TEMPLATE_ZONE_OPTIONS.find((option) => option.key === activeKey)?.color ?? '#000000';
+
+  return (
+    <Dialog open={template !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Atur Zona Template</DialogTitle>
+          <DialogDescription>
+            Pilih elemen lalu tarik kotak di atas gambar. Elemen tanpa zona tetap memakai tata letak bawaan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_220px] gap-4">
+          <div className="bg-muted rounded-md p-2 flex items-center justify-center">
+            {template?.imageUrl ? (
+              <div
+                ref={surfaceRef}
+                className="relative select-none touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+              >
+                <img
+                  src={template.imageUrl}
+                  alt={template.name}
+                  className="block max-h-[60vh] w-auto pointer-events-none"
+                  draggable={false}
+                />
+                {TEMPLATE_ZONE_OPTIONS.map((option) => {
+                  const zone = zones[option.key];
+                  if (!zone) return null;
+                  return (
+                    <div
+                      key={option.key}
+                      className="absolute border-2 pointer-events-none"
+                      style={zoneStyle(zone, option.color)}
+                    >
+                      <span
+                        className="absolute top-0 left-0 px-1 text-[10px] font-medium text-white"
+                        style={{ backgroundColor: option.color }}
+                      >
+                        {option.label}
+                      </span>
+                    </div>
+                  );
+                })}
+                {drag && (
+                  <div
+                    className="absolute border-2 border-dashed pointer-events-none"
+                    style={zoneStyle(drag.zone, activeColor)}
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="py-8 text-sm text-muted-foreground">Template tidak memiliki gambar</div>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            {TEMPLATE_ZONE_OPTIONS.map((option) => {
+              const isActive = option.key === activeKey;
+              return (
+                <div
+                  key={option.key}
+                  className={`flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm cursor-pointer ${
+                    isActive ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
+                  onClick={() => setActiveKey(option.key)}
+                >
+                  <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: option.color }} />
+                  <span className="flex-1 truncate">{option.label}</span>
+                  {zones[option.key] ? (
+                    <button
+                      className="text-muted-foreground hover:text-destructive"
+                      title="Hapus zona"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeZone(option.key);
+                      }}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <span className="text-[10px] text-muted-foreground">Bawaan</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving || !template} className="w-full">
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Menyimpan...' : 'Simpan Zona'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
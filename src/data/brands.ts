@@ -5,6 +5,8 @@ export interface Brand {
   logoBg?: string;
   logoTextColor?: string;
   logoData?: string;
+  segment?: string; // product.segment2 value this brand is matched to
+  siteCodes?: string[];
 }
 
 // Simple brand seeds with logo colors; can be replaced with real assets later.
@@ -31,3 +33,11 @@ export const brands: Brand[] = [
     logoTextColor: '#ffffff',
   },
 ];
+
+export const normalizeBrandSegment = (value?: string) =>
+  (value ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+export const findBrandBySegment = (brands: Brand[], segment?: string) => {
+  const key = normalizeBrandSegment(segment);
+  return key ? brands.find((brand) => brand.segment === key) : undefined;
+};
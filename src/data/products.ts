@@ -4,6 +4,21 @@ export interface CustomPriceOption {
   promoPrice: number;
 }
 
+/** Fields the user may override after a product was added. */
+export type EditableProductField =
+  | 'name'
+  | 'description'
+  | 'brand'
+  | 'uom'
+  | 'normalPrice'
+  | 'promoPrice'
+  | 'discount'
+  | 'extraDiscount'
+  | 'memberDiscount'
+  | 'upTo';
+
+export type ProductSourceValues = Partial<Pick<Product, EditableProductField>>;
+
 export interface Product {
   sku: string;
   name: string;
@@ -17,6 +32,8 @@ export interface Product {
   brandLogoUrl?: string;
   brandColor?: string;
   brandTextColor?: string;
+  /** Photo from the product image store, printed where the template has an image zone */
+  productImageUrl?: string;
   category?: string;
   brandSegment?: string;
   descSegment?: string;
@@ -33,8 +50,21 @@ export interface Product {
   basePricePerMeter?: number;
   finalPricePerMeter?: number;
   isCustom?: boolean;
+  /** Stable id of this print queue entry; several entries may share a SKU */
+  queueId?: string;
+  /** Tags printed for this entry, e.g. one per shelf facing; defaults to 1 */
+  copies?: number;
+  /** POP layout id for this entry; falls back to the template's layout */
+  popLayout?: string;
+  /** Original values of overridden fields; a key is present only while that field is overridden */
+  sourceValues?: ProductSourceValues;
 }
 
+export const MAX_PRODUCT_COPIES = 99;
+
+export const getProductCopies = (product: Product): number =>
+  Math.min(MAX_PRODUCT_COPIES, Math.max(1, Math.floor(Number(product.copies) || 1)));
+
 export const products: Record<string, Product> = {};
 
 export const searchProduct = (sku: string): Product | null => {
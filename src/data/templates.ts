@@ -1,3 +1,12 @@
+import type { PopTheme } from '@/lib/popLayouts';
+import type { TemplateZones } from '@/lib/templateZones';
+
+// product: POP filled with product data; theme: one full-page artwork; sticker: artwork repeated per cell
+export type TemplateKind = 'product' | 'theme' | 'sticker';
+
+// logo: brand image, falling back to the coloured badge and then the segment name
+export type BrandDisplay = 'logo' | 'text' | 'none';
+
 export interface Template {
   id: string;
   name: string;
@@ -6,6 +15,45 @@ export interface Template {
   layout: 'centered' | 'left-aligned' | 'compact';
   type?: 'default' | 'custom';
   imageUrl?: string; // For custom uploaded templates
+  zones?: TemplateZones; // Layout zones drawn on custom templates
+  kind?: TemplateKind; // Missing on templates uploaded before kinds existed
+  category?: string;
+  tags?: string[];
+  activeFrom?: string; // YYYY-MM-DD, inclusive; seasonal templates are hidden outside this window
+  activeUntil?: string;
+  archived?: boolean; // Hidden from the template list, still loadable by id
+  siteCodes?: string[]; // Sites that get this template; empty for every site
+  brandDisplay?: BrandDisplay; // Defaults to 'logo'
+  popLayout?: string; // Id from the POP layout registry; defaults to the standard layout
+  theme?: PopTheme; // Fonts and colours for product POPs; built-in look when missing
 }
 
+export const TEMPLATE_KIND_OPTIONS: { value: TemplateKind; label: string; description: string }[] = [
+  { value: 'product', label: 'POP Produk', description: 'Diisi data produk dari SKU' },
+  { value: 'theme', label: 'Tema Full', description: 'Satu gambar penuh per halaman, tanpa produk' },
+  { value: 'sticker', label: 'Stiker', description: 'Gambar diulang di setiap kotak layout, tanpa produk' },
+];
+
+export const getTemplateKind = (template?: Template | null): TemplateKind => template?.kind ?? 'product';
+
+export const getTemplateKindLabel = (kind: TemplateKind) =>
+  TEMPLATE_KIND_OPTIONS.find((option) => option.value === kind)?.label ?? 'POP Produk';
+
+export const BRAND_DISPLAY_OPTIONS: { value: BrandDisplay; label: string }[] = [
+  { value: 'logo', label: 'Logo (cadangan: badge, lalu teks)' },
+  { value: 'text', label: 'Teks saja' },
+  { value: 'none', label: 'Sembunyikan brand' },
+];
+
+export const getBrandDisplay = (template?: Template | null): BrandDisplay => template?.brandDisplay ?? 'logo';
+
 export const templates: Template[] = [];
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Mirrors the server's schedule check so admins can see which templates store users get. */
+export const isTemplateActive = (template: Template, date: Date = new Date()) => {
+  const today = toDateString(date);
+  return (!template.activeFrom || template.activeFrom <= today) && (!template.activeUntil || template.activeUntil >= today);
+};
@@ -0,0 +1,16 @@
+import * as React from "react";
+import { PopLayout, getPopLayouts } from "@/lib/popLayouts";
+import { loadPopLayouts, subscribePopLayouts } from "@/lib/popLayoutStorage";
+
+/** The POP layout registry, re-rendering when it loads or an admin edits it. */
+export function usePopLayouts(): PopLayout[] {
+  const [layouts, setLayouts] = React.useState<PopLayout[]>(getPopLayouts);
+
+  React.useEffect(() => {
+    const unsubscribe = subscribePopLayouts(setLayouts);
+    loadPopLayouts().then(setLayouts);
+    return unsubscribe;
+  }, []);
+
+  return layouts;
+}
@@ -0,0 +1,71 @@
+import * as React from "react";
+
+const HISTORY_LIMIT = 100;
+const MERGE_WINDOW = 1000;
+
+interface HistoryEntry<T> {
+  snapshot: T;
+  mergeKey?: string;
+  recordedAt: number;
+}
+
+/**
+ * Snapshot-based undo/redo.
+ * Call `record` with the state from before a change; consecutive records sharing a
+ * `mergeKey` within a second (e.g. keystrokes in one field) collapse into one step.
+ */
+export function useUndoHistory<T>() {
+  const pastRef = React.useRef<HistoryEntry<T>[]>([]);
+  const futureRef = React.useRef<T[]>([]);
+  const [counts, setCounts] = React.useState({ past: 0, future: 0 });
+
+  const syncCounts = React.useCallback(() => {
+    setCounts({ past: pastRef.current.length, future: futureRef.current.length });
+  }, []);
+
+  const record = React.useCallback((snapshot: T, mergeKey?: string) => {
+    const now = Date.now();
+    const last = pastRef.current[pastRef.current.length - 1];
+    futureRef.current = [];
+    if (mergeKey && last?.mergeKey === mergeKey && now - last.recordedAt < MERGE_WINDOW) {
+      last.recordedAt = now;
+    } else {
+      pastRef.current = [...pastRef.current, { snapshot, mergeKey, recordedAt: now }].slice(-HISTORY_LIMIT);
+    }
+    syncCounts();
+  }, [syncCounts]);
+
+  /** Returns the snapshot to restore, or null when there is nothing to undo. */
+  const undo = React.useCallback((current: T): T | null => {
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (!previous) return null;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, current];
+    syncCounts();
+    return previous.snapshot;
+  }, [syncCounts]);
+
+  const redo = React.useCallback((current: T): T | null => {
+    const next = futureRef.current[futureRef.current.length - 1];
+    if (next === undefined) return null;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, { snapshot: current, recordedAt: 0 }];
+    syncCounts();
+    return next;
+  }, [syncCounts]);
+
+  const clear = React.useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    syncCounts();
+  }, [syncCounts]);
+
+  return {
+    canUndo: counts.past > 0,
+    canRedo: counts.future > 0,
+    record,
+    undo,
+    redo,
+    clear,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Barcode encoding for printed price tags.
+ * Produces module patterns (1 = bar, 0 = space) for EAN-13 and Code128
+ * so the renderer can draw deterministic, scannable bars.
+ */
+
+export type BarcodeFormat = 'ean13' | 'code128';
+
+export interface EncodedBarcode {
+  format: BarcodeFormat;
+  /** Value encoded in the bars (EAN-13 always includes the check digit). */
+  value: string;
+  /** Module pattern, one character per module: '1' bar, '0' space. */
+  modules: string;
+}
+
+export interface BarcodeResult {
+  barcode: EncodedBarcode | null;
+  /** Reason the value could not be encoded, when `barcode` is null. */
+  error?: string;
+}
+
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Bar/space widths for Code128 symbol values 0-106 (106 is the stop pattern).
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+export const computeEan13CheckDigit = (digits12: string): number => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const encodeEan13 = (digits: string): BarcodeResult => {
+  const body = digits.slice(0, 12);
+  const expected = computeEan13CheckDigit(body);
+  if (digits.length === 13 && Number(digits[12]) !== expected) {
+    return { barcode: null, error: `Check digit EAN-13 tidak valid (seharusnya ${expected})` };
+  }
+
+  const value = `${body}${expected}`;
+  const parity = EAN_PARITY[Number(value[0])];
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    const digit = Number(value[i]);
+    modules += parity[i - 1] === 'L' ? EAN_L_CODES[digit] : EAN_G_CODES[digit];
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) {
+    modules += EAN_R_CODES[Number(value[i])];
+  }
+  modules += '101';
+
+  return { barcode: { format: 'ean13', value, modules } };
+};
+
+const widthsToModules = (widths: string) =>
+  widths
+    .split('')
+    .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+    .join('');
+
+const encodeCode128 = (text: string): BarcodeResult => {
+  const useSetC = /^\d+$/.test(text) && text.length % 2 === 0;
+  const symbols: number[] = [useSetC ? CODE128_START_C : CODE128_START_B];
+
+  if (useSetC) {
+    for (let i = 0; i < text.length; i += 2) {
+      symbols.push(Number(text.slice(i, i + 2)));
+    }
+  } else {
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      if (code < 32 || code > 126) {
+        return { barcode: null, error: `Karakter "${char}" tidak didukung Code128` };
+      }
+      symbols.push(code - 32);
+    }
+  }
+
+  const checksum = symbols.reduce(
+    (sum, symbol, index) => sum + symbol * (index === 0 ? 1 : index),
+    0
+  ) % 103;
+  symbols.push(checksum, CODE128_STOP);
+
+  return {
+    barcode: {
+      format: 'code128',
+      value: text,
+      modules: symbols.map((symbol) => widthsToModules(CODE128_PATTERNS[symbol])).join(''),
+    },
+  };
+};
+
+/**
+ * Encodes a product barcode: 12/13 digits become EAN-13 (13 digits must carry
+ * a valid check digit), anything else printable becomes Code128.
+ */
+export const encodeBarcode = (raw: string | null | undefined): BarcodeResult => {
+  const value = String(raw ?? '').trim();
+  if (!value) {
+    return { barcode: null, error: 'Barcode kosong' };
+  }
+  if (/^\d{12,13}$/.test(value)) {
+    return encodeEan13(value);
+  }
+  return encodeCode128(value);
+};
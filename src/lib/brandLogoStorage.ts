@@ -0,0 +1,45 @@
+/**
+ * Brand logo storage
+ * Logo files uploaded to the server; the brand registry decides which sites see them.
+ */
+import { getAuthToken } from '@/lib/auth';
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  url: string;
+  uploadedAt: number;
+}
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const authHeaders = (json = false): HeadersInit => {
+  const token = getAuthToken();
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+class BrandLogoStorageService {
+  async uploadLogo(payload: { name: string; imageData: string }): Promise<BrandLogo> {
+    const response = await fetch('/api/brand-logos', {
+      method: 'POST',
+      headers: authHeaders(true),
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+}
+
+export const brandLogoStorage = new BrandLogoStorageService();
@@ -0,0 +1,104 @@
+/**
+ * Brand registry
+ * Maps database brand segments (segment2) to logos and colours, shared by every user.
+ */
+import { getAuthToken } from '@/lib/auth';
+import { Brand } from '@/data/brands';
+
+interface StoredBrand {
+  id: string;
+  name: string;
+  segment: string;
+  logoUrl?: string;
+  logoText?: string;
+  logoBg?: string;
+  logoTextColor?: string;
+  siteCodes?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BrandInput {
+  name?: string;
+  segment?: string;
+  logoUrl?: string;
+  logoText?: string;
+  logoBg?: string;
+  logoTextColor?: string;
+  siteCodes?: string[];
+}
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const authHeaders = (json = false): HeadersInit => {
+  const token = getAuthToken();
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+const toBrand = (stored: StoredBrand): Brand => ({
+  id: stored.id,
+  name: stored.name,
+  segment: stored.segment,
+  logoData: stored.logoUrl,
+  logoText: stored.logoText,
+  logoBg: stored.logoBg,
+  logoTextColor: stored.logoTextColor,
+  siteCodes: stored.siteCodes ?? [],
+});
+
+class BrandStorageService {
+  async getBrands(): Promise<Brand[]> {
+    const response = await fetch('/api/brands', { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    const stored: StoredBrand[] = await response.json();
+    return stored.map(toBrand);
+  }
+
+  async createBrand(input: BrandInput): Promise<Brand> {
+    const response = await fetch('/api/brands', {
+      method: 'POST',
+      headers: authHeaders(true),
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return toBrand(await response.json());
+  }
+
+  async updateBrand(id: string, input: BrandInput): Promise<Brand> {
+    const response = await fetch(`/api/brands/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: authHeaders(true),
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return toBrand(await response.json());
+  }
+
+  async deleteBrand(id: string): Promise<void> {
+    const response = await fetch(`/api/brands/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+  }
+}
+
+export const brandStorage = new BrandStorageService();
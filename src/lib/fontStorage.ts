@@ -0,0 +1,144 @@
+/**
+ * Font storage
+ * TrueType files uploaded by admins; template themes pick a family by name.
+ * Files are registered with the browser for the canvas and embedded again by the vector PDF export.
+ */
+import { cache } from 'fabric';
+import { getAuthToken } from '@/lib/auth';
+
+export interface UploadedFont {
+  id: string;
+  family: string;
+  weight: number;
+  url: string;
+  uploadedAt: number;
+}
+
+export const FONT_WEIGHT_OPTIONS = [
+  { value: 400, label: 'Regular (400)' },
+  { value: 500, label: 'Medium (500)' },
+  { value: 600, label: 'SemiBold (600)' },
+  { value: 700, label: 'Bold (700)' },
+  { value: 800, label: 'ExtraBold (800)' },
+  { value: 900, label: 'Black (900)' },
+];
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const authHeaders = (json = false): HeadersInit => {
+  const token = getAuthToken();
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+/** CSS font stack for a theme family, falling back to the built-in Inter. */
+export const fontStackFor = (family: string) => `"${family}", Inter, sans-serif`;
+
+/** First family of a CSS font stack, without quotes. */
+export const primaryFontFamily = (fontFamily?: string) =>
+  (fontFamily ?? '').split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+let registeredFonts: UploadedFont[] = [];
+let registration: Promise<UploadedFont[]> | null = null;
+// Faces added to document.fonts, by font id, so a reload only swaps what changed
+const fontFaces = new Map<string, FontFace>();
+
+class FontStorageService {
+  async getFonts(): Promise<UploadedFont[]> {
+    const response = await fetch('/api/fonts');
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async uploadFont(family: string, weight: number, fontData: string): Promise<UploadedFont> {
+    const response = await fetch('/api/fonts', {
+      method: 'POST',
+      headers: authHeaders(true),
+      body: JSON.stringify({ family, weight, fontData }),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    registration = null;
+    return response.json();
+  }
+
+  async deleteFont(id: string): Promise<void> {
+    const response = await fetch(`/api/fonts/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    registration = null;
+  }
+}
+
+export const fontStorage = new FontStorageService();
+
+/**
+ * Loads the uploaded font list once and adds every file to `document.fonts`.
+ * A failed request leaves the list empty so POPs still render with Inter.
+ */
+export const registerUploadedFonts = (): Promise<UploadedFont[]> => {
+  if (!registration) {
+    registration = fontStorage.getFonts()
+      .then((fonts) => {
+        const ids = new Set(fonts.map((font) => font.id));
+        fontFaces.forEach((face, id) => {
+          if (ids.has(id)) return;
+          document.fonts.delete(face);
+          fontFaces.delete(id);
+        });
+        fonts.forEach((font) => {
+          if (fontFaces.has(font.id)) return;
+          const face = new FontFace(font.family, `url(${font.url})`, { weight: String(font.weight) });
+          document.fonts.add(face);
+          fontFaces.set(font.id, face);
+        });
+        registeredFonts = fonts;
+        return fonts;
+      })
+      .catch((error) => {
+        console.error('Failed to load uploaded fonts:', error);
+        registration = null;
+        return [];
+      });
+  }
+  return registration;
+};
+
+/**
+ * Waits until every weight of a family is ready to draw.
+ * Fabric caches glyph widths per family, so the cache is cleared once the real files are in.
+ */
+export const ensureFontFamily = async (family?: string) => {
+  if (!family) return;
+  const fonts = (await registerUploadedFonts()).filter((font) => font.family === family);
+  if (fonts.length === 0) return;
+  await Promise.all(fonts.map((font) => document.fonts.load(`${font.weight} 16px "${family}"`).catch(() => null)));
+  cache.clearFontCache(family);
+};
+
+/** Closest registered weight of an uploaded family; undefined for Inter and unknown families. */
+export const findUploadedFont = (fontFamily: string | undefined, weight: number): UploadedFont | undefined => {
+  const family = primaryFontFamily(fontFamily);
+  const candidates = registeredFonts.filter((font) => font.family === family);
+  return candidates.reduce<UploadedFont | undefined>(
+    (closest, font) =>
+      !closest || Math.abs(font.weight - weight) < Math.abs(closest.weight - weight) ? font : closest,
+    undefined
+  );
+};
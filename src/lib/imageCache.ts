@@ -0,0 +1,23 @@
+/**
+ * Fabric image cache
+ * Logos, product photos and overlay images repeat across cells and pages, so each URL is fetched once.
+ * A failed load resolves to null and callers fall back (brand logos to badge or text);
+ * it is dropped from the cache so the next render tries again.
+ */
+import { FabricImage } from 'fabric';
+
+const imageCache = new Map<string, Promise<FabricImage | null>>();
+
+/** Resolves to a fresh clone each time so callers can position it freely. */
+export const loadCachedImage = (url: string): Promise<FabricImage | null> => {
+  let cached = imageCache.get(url);
+  if (!cached) {
+    cached = FabricImage.fromURL(url).catch((error) => {
+      console.warn('Failed to load image:', url, error);
+      imageCache.delete(url);
+      return null;
+    });
+    imageCache.set(url, cached);
+  }
+  return cached.then((image) => (image ? image.clone() : null));
+};
@@ -0,0 +1,138 @@
+/**
+ * Page overlays
+ * Free text, badges, arrows and images placed on top of a printed page.
+ * An overlay dropped on a POP belongs to that queue entry and is positioned from the
+ * entry's cell, so it follows the entry through reordering, copies and 1/2/4-up changes
+ * and shows on every copy. Pages without POPs (theme and sticker templates) keep their
+ * overlays by page index. Units are page units (1pt = 1px at preview scale 1).
+ */
+import { getAuthToken } from '@/lib/auth';
+import { findUploadedFont } from '@/lib/fontStorage';
+
+export type PageOverlayKind = 'text' | 'badge' | 'arrow' | 'image';
+
+export interface PageOverlay {
+  id: string;
+  kind: PageOverlayKind;
+  left: number;
+  top: number;
+  scaleX?: number;
+  scaleY?: number;
+  angle?: number;
+  /** Text and badge label */
+  text?: string;
+  fontSize?: number;
+  fontFamily?: string;
+  bold?: boolean;
+  /** Text colour, or the arrow colour */
+  color?: string;
+  /** Badge background */
+  fill?: string;
+  /** Image overlays, uploaded to the server */
+  imageUrl?: string;
+}
+
+/** Overlays per page index or per `entryOverlayKey`; JSON turns the index into a string key. */
+export type PageOverlays = Record<string, PageOverlay[]>;
+
+export const entryOverlayKey = (queueId: string) => `entry:${queueId}`;
+
+export const DEFAULT_OVERLAY_FONT = 'Inter, sans-serif';
+
+/**
+ * Overlays may only use fonts the vector PDF can embed: Inter and uploaded families.
+ * Anything else (e.g. a removed upload) falls back to Inter so preview and print agree.
+ * Expects `registerUploadedFonts` to have finished.
+ */
+export const resolveOverlayFont = (fontFamily?: string) =>
+  fontFamily && findUploadedFont(fontFamily, 400) ? fontFamily : DEFAULT_OVERLAY_FONT;
+
+export const BADGE_PRESETS: { text: string; fill: string; color: string }[] = [
+  { text: 'Stok Terbatas', fill: '#dc2626', color: '#ffffff' },
+  { text: 'Hanya Hari Ini', fill: '#f59e0b', color: '#111827' },
+  { text: 'Promo Spesial', fill: '#16a34a', color: '#ffffff' },
+  { text: 'Produk Baru', fill: '#2563eb', color: '#ffffff' },
+];
+
+const createOverlayId = () => `ov-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** New overlay near the top-left of the page; callers pass the kind-specific fields. */
+export const createOverlay = (kind: PageOverlayKind, fields: Partial<PageOverlay> = {}): PageOverlay => ({
+  id: createOverlayId(),
+  kind,
+  left: 40,
+  top: 40,
+  ...(kind === 'text' ? { text: 'Teks baru', fontSize: 28, fontFamily: DEFAULT_OVERLAY_FONT, bold: true, color: '#111827' } : {}),
+  ...(kind === 'arrow' ? { color: '#dc2626' } : {}),
+  ...fields,
+});
+
+export const getPageOverlays = (overlays: PageOverlays, pageIndex: number): PageOverlay[] =>
+  overlays[String(pageIndex)] ?? [];
+
+export const getEntryOverlays = (overlays: PageOverlays, queueId: string): PageOverlay[] =>
+  overlays[entryOverlayKey(queueId)] ?? [];
+
+export const findOverlayKey = (overlays: PageOverlays, id: string) =>
+  Object.keys(overlays).find((key) => overlays[key].some((overlay) => overlay.id === id));
+
+export const removeOverlay = (overlays: PageOverlays, id: string): PageOverlays => {
+  const key = findOverlayKey(overlays, id);
+  if (!key) return overlays;
+  const updated = { ...overlays };
+  const remaining = overlays[key].filter((overlay) => overlay.id !== id);
+  if (remaining.length > 0) {
+    updated[key] = remaining;
+  } else {
+    delete updated[key];
+  }
+  return updated;
+};
+
+/** Stores `overlay` under `key`: in place if it is already there, otherwise moved on top of that key's list. */
+export const placeOverlay = (overlays: PageOverlays, key: string, overlay: PageOverlay): PageOverlays => {
+  if (findOverlayKey(overlays, overlay.id) === key) {
+    return { ...overlays, [key]: overlays[key].map((item) => (item.id === overlay.id ? overlay : item)) };
+  }
+  const updated = removeOverlay(overlays, overlay.id);
+  return { ...updated, [key]: [...(updated[key] ?? []), overlay] };
+};
+
+/** Drops the overlays of a removed queue entry. */
+export const removeEntryOverlays = (overlays: PageOverlays, queueId: string): PageOverlays => {
+  const key = entryOverlayKey(queueId);
+  if (!overlays[key]) return overlays;
+  const updated = { ...overlays };
+  delete updated[key];
+  return updated;
+};
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+/** Formats the server accepts for overlay images. */
+export const OVERLAY_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/** Uploads an overlay image so sessions store a URL instead of the image data. */
+export const uploadOverlayImage = async (imageData: string): Promise<string> => {
+  const token = getAuthToken();
+  const response = await fetch('/api/overlay-images', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ imageData }),
+  });
+  if (!response.ok) {
+    throw new Error(await parseError(response));
+  }
+  const payload = await response.json();
+  return payload.url;
+};
@@ -0,0 +1,84 @@
+/**
+ * Paper sizes for POP pages.
+ * Dimensions are kept in millimetres (for print CSS) and converted to points,
+ * which is the unit of the Fabric canvas and the jsPDF document.
+ */
+
+export type PaperSize = 'a4' | 'a3' | 'a5' | 'f4' | 'custom';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export interface PaperSettings {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  /** Used when `paperSize` is 'custom', e.g. thin shelf strips. */
+  customWidthMm: number;
+  customHeightMm: number;
+}
+
+export interface PageDimensions {
+  width: number;
+  height: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const MM_TO_PT = 72 / 25.4;
+
+export const MIN_CUSTOM_PAPER_MM = 20;
+export const MAX_CUSTOM_PAPER_MM = 1200;
+
+// Portrait width x height in millimetres
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'custom'>, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  a3: { label: 'A3', widthMm: 297, heightMm: 420 },
+  a5: { label: 'A5', widthMm: 148, heightMm: 210 },
+  f4: { label: 'F4', widthMm: 215, heightMm: 330 },
+};
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+  paperSize: 'a4',
+  orientation: 'portrait',
+  customWidthMm: 297,
+  customHeightMm: 60,
+};
+
+const clampCustomMm = (value: number, fallback: number) => {
+  if (!Number.isFinite(value) || value <= 0) return fallback;
+  return Math.min(MAX_CUSTOM_PAPER_MM, Math.max(MIN_CUSTOM_PAPER_MM, value));
+};
+
+/**
+ * Resolves the page size in points. Custom sizes are used exactly as entered;
+ * preset sizes are rotated for landscape.
+ */
+export const getPageDimensions = (paper: Partial<PaperSettings>): PageDimensions => {
+  const settings = { ...DEFAULT_PAPER_SETTINGS, ...paper };
+  let widthMm: number;
+  let heightMm: number;
+
+  if (settings.paperSize === 'custom') {
+    widthMm = clampCustomMm(settings.customWidthMm, DEFAULT_PAPER_SETTINGS.customWidthMm);
+    heightMm = clampCustomMm(settings.customHeightMm, DEFAULT_PAPER_SETTINGS.customHeightMm);
+  } else {
+    const preset = PAPER_SIZES[settings.paperSize] ?? PAPER_SIZES.a4;
+    const isLandscape = settings.orientation === 'landscape';
+    widthMm = isLandscape ? preset.heightMm : preset.widthMm;
+    heightMm = isLandscape ? preset.widthMm : preset.heightMm;
+  }
+
+  return {
+    width: Math.round(widthMm * MM_TO_PT),
+    height: Math.round(heightMm * MM_TO_PT),
+    widthMm,
+    heightMm,
+  };
+};
+
+export const getPaperLabel = (paper: Partial<PaperSettings>) => {
+  const settings = { ...DEFAULT_PAPER_SETTINGS, ...paper };
+  if (settings.paperSize === 'custom') {
+    const { widthMm, heightMm } = getPageDimensions(settings);
+    return `${widthMm}x${heightMm} mm`;
+  }
+  return PAPER_SIZES[settings.paperSize]?.label ?? 'A4';
+};
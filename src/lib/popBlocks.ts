@@ -0,0 +1,1215 @@
+/**
+ * POP block renderers
+ * Draws one POP cell from a layout in popLayouts.ts. Each block type has a renderer that
+ * draws at the flow cursor (or inside its template zone) and moves the cursor down.
+ */
+import { FabricObject, FabricText, FixedLayout, Gradient, Group, LayoutManager, Line, Rect, Shadow, Textbox } from 'fabric';
+import { CustomPriceOption, Product, formatPrice } from '@/data/products';
+import type { BrandDisplay } from '@/data/templates';
+import type { PopSettingsState } from '@/components/PopSettings';
+import { encodeBarcode } from '@/lib/barcode';
+import { loadCachedImage } from '@/lib/imageCache';
+import { getProductBrandLabel, getProductDescription } from '@/lib/productOverrides';
+import {
+  PopBlock,
+  PopBlockType,
+  PopGridValue,
+  PopLayout,
+  PopTextRole,
+  PopTheme,
+  getBadgeColors,
+  getHeroFill,
+  getLayoutFrame,
+  getTextStyle,
+} from '@/lib/popLayouts';
+import type { TemplateZoneKey, ZoneFrames } from '@/lib/templateZones';
+
+// Element sub-groups inside a POP group (brand, price, barcode, ...)
+export const popElementKeys = new WeakMap<FabricObject, TemplateZoneKey>();
+
+const BASE_SCALE = 1.05;
+const COLUMN_GAP = 16;
+const MUTED_COLOR = '#6b7280';
+const VALUE_COLOR = '#4b5563';
+const CARD_FILL = '#f8fafc';
+const CARD_STROKE = '#d1d5db';
+const SEPARATOR_COLOR = '#e5e7eb';
+const cardShadow = () => new Shadow({ color: 'rgba(15, 23, 42, 0.15)', blur: 6, offsetX: 0, offsetY: 2 });
+const BADGE_ROW_HEIGHT: PopGridValue = { 1: 96, 2: 84, 4: 70 };
+const BARCODE_HEIGHT: PopGridValue = { 1: 40, 2: 32, 4: 26 };
+const METER_PRICE_SCALE: PopGridValue = { 1: 1.12, 2: 1.06, 4: 1 };
+
+/** Price and discount facts every block reads; derived once per product. */
+interface PopPricing {
+  baseDiscount: number;
+  disc2: number;
+  disc3: number;
+  disc4AsDiscount: number;
+  member: number;
+  /** Rupiah cut shown as "Potongan Harga", 0 when the discount is a percentage */
+  cutValue: number;
+  priceRows: CustomPriceOption[];
+  primaryPrice: CustomPriceOption;
+  hasAnyDiscount: boolean;
+  isDiscountOnly: boolean;
+  /** Granite tiles print the per-piece and per-metre price side by side */
+  meterPrices: { base: number; final: number } | null;
+}
+
+interface PopDrawContext {
+  product: Product;
+  settings: PopSettingsState;
+  layout: PopLayout;
+  theme?: PopTheme;
+  pricing: PopPricing;
+  brandDisplay: BrandDisplay;
+  zoneFrames?: ZoneFrames;
+  cell: { x: number; y: number; width: number; height: number };
+  groupScale: number;
+  objects: FabricObject[];
+  elementKeys: Map<FabricObject, TemplateZoneKey>;
+  /** Flow cursor: blocks draw centred on centerX from currentY and advance it */
+  flow: { centerX: number; currentY: number; contentWidth: number };
+}
+
+type BlockRenderer<T extends PopBlockType> = (
+  ctx: PopDrawContext,
+  block: Extract<PopBlock, { type: T }>
+) => void | Promise<void>;
+
+const getPricing = (product: Product): PopPricing => {
+  const baseDiscount = product.discount ?? 0;
+  const disc2 = product.extraDiscount ?? product.disc2 ?? 0;
+  const disc3 = product.disc3 ?? 0;
+  const rawDisc4 = product.memberDiscount ?? 0;
+  const isDisc4MemberValue = rawDisc4 === 2 || rawDisc4 === 3;
+  const useDisc4AsMember = product.isCustom ? rawDisc4 > 0 : isDisc4MemberValue;
+  const member = useDisc4AsMember ? rawDisc4 : 0;
+  const disc4AsDiscount = useDisc4AsMember ? 0 : rawDisc4;
+  const discountAmount = product.discountAmount ?? 0;
+  const priceRows: CustomPriceOption[] = (
+    product.customPriceOptions && product.customPriceOptions.length > 0
+      ? product.customPriceOptions
+      : [{ uom: product.uom, normalPrice: product.normalPrice, promoPrice: product.promoPrice }]
+  ).filter((row) => (row.normalPrice ?? 0) > 0 || (row.promoPrice ?? 0) > 0);
+  const primaryPrice = priceRows[0] ?? {
+    uom: product.uom,
+    normalPrice: product.normalPrice,
+    promoPrice: product.promoPrice,
+  };
+  const hasAnyDiscount =
+    baseDiscount > 0 || disc2 > 0 || disc3 > 0 || disc4AsDiscount > 0 || member > 0 || discountAmount > 0;
+  const graniteLabel = `${product.descSegment || ''} ${product.description || ''}`.toUpperCase();
+  const meterBase = Number(product.basePricePerMeter);
+  const meterFinal = Number(product.finalPricePerMeter);
+  const hasMeterPrice = Number.isFinite(meterFinal) && Number.isFinite(meterBase);
+
+  return {
+    baseDiscount,
+    disc2,
+    disc3,
+    disc4AsDiscount,
+    member,
+    cutValue: product.discountType === 'cut' ? discountAmount : baseDiscount > 100 ? baseDiscount : 0,
+    priceRows,
+    primaryPrice,
+    hasAnyDiscount,
+    isDiscountOnly: hasAnyDiscount && priceRows.length === 0,
+    meterPrices: graniteLabel.includes('GRANIT') && hasMeterPrice ? { base: meterBase, final: meterFinal } : null,
+  };
+};
+
+const scaledWidth = (object: FabricObject) => object.getScaledWidth?.() ?? object.width ?? 0;
+
+/** Font props for a role at this cell's size. */
+const textStyle = (ctx: PopDrawContext, role: PopTextRole) => {
+  const style = getTextStyle(ctx.layout, role, ctx.theme);
+  return {
+    fontSize: style.size[ctx.settings.layout] * ctx.groupScale,
+    fontFamily: style.fontFamily,
+    fontWeight: style.weight,
+    fill: style.color,
+  };
+};
+
+const formatPercentValue = (value: number) => {
+  const fixed = value.toFixed(2);
+  return fixed.replace(/\.00$/, '').replace(/(\.\d)0$/, '$1');
+};
+
+// Draws a section inside its template zone when one is defined, otherwise in the normal flow.
+// Zoned sections leave the flow position untouched so unzoned sections keep stacking.
+// Everything a section draws is tagged with its key so it can be moved as one element.
+const placeInZone = (ctx: PopDrawContext, key: TemplateZoneKey, draw: () => void) => {
+  const firstObject = ctx.objects.length;
+  const frame = ctx.zoneFrames?.[key];
+  if (frame) {
+    const flow = { ...ctx.flow };
+    Object.assign(ctx.flow, {
+      centerX: frame.left + frame.width / 2,
+      currentY: frame.top,
+      contentWidth: frame.width,
+    });
+    draw();
+    Object.assign(ctx.flow, flow);
+  } else {
+    draw();
+  }
+  // Nested sections (strike price inside price) have already tagged their own objects
+  ctx.objects.slice(firstObject).forEach((object) => {
+    if (!ctx.elementKeys.has(object)) ctx.elementKeys.set(object, key);
+  });
+};
+
+const fitTextToLines = (text: string, maxLines: number, box: Textbox, baseSize: number) => {
+  const measureLines = () => (box.textLines ?? box._textLines ?? []).length;
+
+  box.set({ text, fontSize: baseSize });
+  box.initDimensions();
+  if (measureLines() <= maxLines) return;
+
+  let size = baseSize;
+  const minSize = Math.max(12, baseSize * 0.7);
+  while (size > minSize) {
+    size -= 1;
+    box.set({ fontSize: size });
+    box.initDimensions();
+    if (measureLines() <= maxLines) return;
+  }
+};
+
+const fitTextToWidth = (
+  text: string,
+  maxWidth: number,
+  baseSize: number,
+  minSize: number,
+  font: { fontFamily: string; fontWeight: string } = { fontFamily: 'Inter, sans-serif', fontWeight: '700' }
+) => {
+  const measure = (size: number) => scaledWidth(new FabricText(text, { fontSize: size, ...font }));
+
+  let size = baseSize;
+  while (size > minSize && measure(size) > maxWidth) {
+    size -= 1;
+  }
+  return size;
+};
+
+export const drawBarcode = (
+  code: string,
+  centerX: number,
+  top: number,
+  maxWidth: number,
+  barHeight: number
+): Group | null => {
+  const result = encodeBarcode(code);
+  if (!result.barcode) return null;
+
+  const { format, value, modules } = result.barcode;
+  const isEan = format === 'ean13';
+  const quietLeft = isEan ? 11 : 10;
+  const quietRight = isEan ? 7 : 10;
+  const moduleWidth = maxWidth / (quietLeft + modules.length + quietRight);
+  const barsLeft = centerX - maxWidth / 2 + quietLeft * moduleWidth;
+  const fontSize = Math.max(7, Math.min(moduleWidth * 7.5, barHeight * 0.35));
+  const guardExtension = isEan ? fontSize * 0.55 : 0;
+  const textTop = top + barHeight + fontSize * 0.1;
+  const isGuardModule = (index: number) => index < 3 || (index >= 45 && index < 50) || index >= 92;
+
+  // White backing keeps the bars scannable on themed templates
+  const objects: (Rect | FabricText)[] = [
+    new Rect({
+      left: centerX - maxWidth / 2,
+      top: top - fontSize * 0.3,
+      width: maxWidth,
+      height: barHeight + fontSize * 1.6,
+      fill: '#ffffff',
+      strokeWidth: 0,
+    }),
+  ];
+
+  let index = 0;
+  while (index < modules.length) {
+    if (modules[index] !== '1') {
+      index += 1;
+      continue;
+    }
+    let end = index;
+    while (end < modules.length && modules[end] === '1') end += 1;
+    objects.push(new Rect({
+      left: barsLeft + index * moduleWidth,
+      top,
+      width: (end - index) * moduleWidth,
+      height: barHeight + (isEan && isGuardModule(index) ? guardExtension : 0),
+      fill: '#000000',
+      strokeWidth: 0,
+    }));
+    index = end;
+  }
+
+  const pushDigits = (text: string, moduleCenter: number) => {
+    objects.push(new FabricText(text, {
+      left: barsLeft + moduleCenter * moduleWidth,
+      top: textTop,
+      fontSize,
+      fontFamily: 'Inter, sans-serif',
+      fontWeight: '500',
+      fill: '#000000',
+      originX: 'center',
+      originY: 'top',
+    }));
+  };
+
+  if (isEan) {
+    // EAN-13 digits: leading digit in the quiet zone, then one digit per 7-module block
+    pushDigits(value[0], -quietLeft / 2);
+    for (let digit = 1; digit <= 12; digit++) {
+      const blockStart = digit <= 6 ? 3 + (digit - 1) * 7 : 50 + (digit - 7) * 7;
+      pushDigits(value[digit], blockStart + 3.5);
+    }
+  } else {
+    pushDigits(value, modules.length / 2);
+  }
+
+  return new Group(objects);
+};
+
+const renderImage: BlockRenderer<'image'> = async (ctx, block) => {
+  const { product, flow } = ctx;
+  const zone = ctx.zoneFrames?.image;
+  if (!product.productImageUrl || (!zone && !block.height)) return;
+
+  const image = await loadCachedImage(product.productImageUrl);
+  if (!image) return;
+  const frame = zone ?? {
+    left: flow.centerX - flow.contentWidth / 2,
+    top: flow.currentY,
+    width: flow.contentWidth,
+    height: (block.height ?? 0) * ctx.cell.height,
+  };
+  const imageScale = Math.min(
+    frame.width / (image.width || frame.width),
+    frame.height / (image.height || frame.height)
+  );
+  image.set({
+    left: frame.left + frame.width / 2,
+    top: frame.top + frame.height / 2,
+    originX: 'center',
+    originY: 'center',
+    scaleX: imageScale,
+    scaleY: imageScale,
+  });
+  ctx.objects.push(image);
+  ctx.elementKeys.set(image, 'image');
+  if (!zone) {
+    flow.currentY += frame.height + 10 * ctx.groupScale;
+  }
+};
+
+// Logo image, then coloured badge, then plain text
+const renderBrand: BlockRenderer<'brand'> = async (ctx) => {
+  const { product, brandDisplay, flow, groupScale } = ctx;
+  const brandLabel = getProductBrandLabel(product);
+  const brandLogo = brandDisplay === 'logo' && product.brandLogoUrl
+    ? await loadCachedImage(product.brandLogoUrl)
+    : null;
+  const hasBrandBadge = brandDisplay === 'logo' && Boolean(product.brandLogoText && product.brandColor);
+  if (brandDisplay === 'none' || !(brandLabel || brandLogo || hasBrandBadge)) return;
+
+  placeInZone(ctx, 'brand', () => {
+    const style = textStyle(ctx, 'brand');
+    const brandSize = style.fontSize;
+    const brandFrame = ctx.zoneFrames?.brand;
+    // Logo and badge share a box centred where the text would sit
+    const boxWidth = brandFrame?.width ?? flow.contentWidth * 0.6;
+    const boxHeight = brandFrame?.height ?? brandSize * 1.4;
+    const boxTop = brandFrame ? brandFrame.top : flow.currentY - brandSize / 2;
+
+    if (brandLogo) {
+      const logoScale = Math.min(
+        boxWidth / (brandLogo.width || boxWidth),
+        boxHeight / (brandLogo.height || boxHeight)
+      );
+      brandLogo.set({
+        left: flow.centerX,
+        top: boxTop + boxHeight / 2,
+        originX: 'center',
+        originY: 'center',
+        scaleX: logoScale,
+        scaleY: logoScale,
+      });
+      ctx.objects.push(brandLogo);
+      flow.currentY = boxTop + boxHeight + 10 * groupScale;
+      return;
+    }
+
+    if (hasBrandBadge) {
+      const badgeHeight = Math.min(boxHeight, brandSize * 1.2);
+      const badgeFontSize = fitTextToWidth(
+        product.brandLogoText,
+        boxWidth - badgeHeight * 0.6,
+        badgeHeight * 0.55,
+        Math.max(10, badgeHeight * 0.3),
+        { fontFamily: style.fontFamily, fontWeight: '800' }
+      );
+      const badgeText = new FabricText(product.brandLogoText, {
+        fontSize: badgeFontSize,
+        fontFamily: style.fontFamily,
+        fontWeight: '800',
+        fill: product.brandTextColor || '#ffffff',
+        originX: 'center',
+        originY: 'center',
+      });
+      const badgeWidth = Math.min(
+        boxWidth,
+        Math.max(badgeHeight * 1.6, scaledWidth(badgeText) + badgeHeight * 0.6)
+      );
+      const badgeTop = boxTop + (boxHeight - badgeHeight) / 2;
+      ctx.objects.push(new Rect({
+        left: flow.centerX - badgeWidth / 2,
+        top: badgeTop,
+        width: badgeWidth,
+        height: badgeHeight,
+        fill: product.brandColor,
+        rx: badgeHeight * 0.2,
+        ry: badgeHeight * 0.2,
+      }));
+      badgeText.set({ left: flow.centerX, top: badgeTop + badgeHeight / 2 });
+      ctx.objects.push(badgeText);
+      flow.currentY = boxTop + boxHeight + 10 * groupScale;
+      return;
+    }
+
+    const brandFontSize = fitTextToWidth(
+      brandLabel,
+      flow.contentWidth,
+      brandSize,
+      Math.max(14, brandSize * 0.65),
+      { fontFamily: style.fontFamily, fontWeight: style.fontWeight }
+    );
+
+    ctx.objects.push(new FabricText(brandLabel, {
+      ...style,
+      left: flow.centerX,
+      top: flow.currentY,
+      fontSize: brandFontSize,
+      originX: 'center',
+      originY: 'center',
+    }));
+    flow.currentY += brandFontSize + 10 * groupScale;
+  });
+};
+
+const renderName: BlockRenderer<'name'> = (ctx, block) => {
+  const { product, flow, groupScale } = ctx;
+  const { hasAnyDiscount } = ctx.pricing;
+  placeInZone(ctx, 'name', () => {
+    const style = textStyle(ctx, 'name');
+    const nameSize = hasAnyDiscount ? style.fontSize : style.fontSize * (block.undiscountedScale ?? 1);
+    const maxLines = hasAnyDiscount ? block.discountedMaxLines ?? block.maxLines : block.maxLines;
+    const nameBox = new Textbox(product.name, {
+      ...style,
+      left: flow.centerX,
+      top: flow.currentY,
+      width: flow.contentWidth,
+      fontSize: nameSize,
+      textAlign: 'center',
+      originX: 'center',
+      originY: 'top',
+    });
+    fitTextToLines(product.name, maxLines, nameBox, nameSize);
+    ctx.objects.push(nameBox);
+    const nameHeight = Math.max(nameSize, nameBox.getScaledHeight?.() ?? nameBox.height ?? nameSize);
+    flow.currentY += nameHeight + 6 * groupScale;
+  });
+};
+
+const renderDescription: BlockRenderer<'description'> = (ctx) => {
+  const { flow, groupScale } = ctx;
+  const descText = getProductDescription(ctx.product);
+  if (!descText) {
+    flow.currentY += 6 * groupScale;
+    return;
+  }
+  placeInZone(ctx, 'description', () => {
+    const style = textStyle(ctx, 'description');
+    const descBox = new Textbox(descText, {
+      ...style,
+      left: flow.centerX,
+      top: flow.currentY,
+      width: flow.contentWidth,
+      textAlign: 'center',
+      originX: 'center',
+      originY: 'top',
+    });
+    ctx.objects.push(descBox);
+    const descHeight = Math.max(style.fontSize, descBox.getScaledHeight?.() ?? descBox.height ?? style.fontSize);
+    flow.currentY += descHeight + 10 * groupScale;
+  });
+};
+
+// Separates the text from the price; a zoned price has its own place on the artwork
+const renderDivider: BlockRenderer<'divider'> = (ctx) => {
+  const { flow, groupScale } = ctx;
+  if (ctx.zoneFrames?.price) return;
+  const dividerWidth = flow.contentWidth * 0.9;
+  ctx.objects.push(new Line(
+    [flow.centerX - dividerWidth / 2, flow.currentY, flow.centerX + dividerWidth / 2, flow.currentY],
+    { stroke: SEPARATOR_COLOR, strokeWidth: 1 },
+  ));
+  flow.currentY += (ctx.pricing.priceRows.length > 1 ? 4 : 10) * groupScale;
+};
+
+/** Struck-through normal price; returns the height it took. */
+const renderStrikePrice = (
+  ctx: PopDrawContext,
+  price: number,
+  uomLabel: string | undefined,
+  alignX: number,
+  scale = 1,
+  gapScale = 1
+) => {
+  const { flow, groupScale } = ctx;
+  if (!ctx.settings.showStrikePrice || !price) return 0;
+  const style = textStyle(ctx, 'strike');
+  const strikeFontSize = style.fontSize * scale;
+  const strikeText = new FabricText(`Rp ${formatPrice(price)}`, {
+    ...style,
+    left: alignX,
+    top: flow.currentY,
+    fontSize: strikeFontSize,
+    originX: 'center',
+    originY: 'top',
+  });
+  ctx.objects.push(strikeText);
+  const strikeWidth = scaledWidth(strikeText);
+  if (uomLabel) {
+    ctx.objects.push(new FabricText(`/${uomLabel}`, {
+      left: alignX + strikeWidth / 2 + 6 * groupScale,
+      top: flow.currentY + strikeFontSize * 0.1,
+      fontSize: Math.max(10, strikeFontSize * 0.7),
+      fontFamily: style.fontFamily,
+      fontWeight: '600',
+      fill: MUTED_COLOR,
+      originX: 'left',
+      originY: 'top',
+    }));
+  }
+
+  const lineWidth = strikeWidth + (uomLabel ? 18 * groupScale * scale : 0);
+  const lineY = flow.currentY + strikeFontSize / 2;
+  ctx.objects.push(new Line([alignX - lineWidth / 2, lineY, alignX + lineWidth / 2, lineY], {
+    stroke: style.fill,
+    strokeWidth: 2,
+  }));
+  return strikeFontSize + 10 * groupScale * gapScale;
+};
+
+/** "Rp." + main digits + small trailing digits and unit, shrunk to `maxWidth`; returns its height. */
+const renderPriceAmount = (
+  ctx: PopDrawContext,
+  price: number,
+  uomLabel: string | undefined,
+  alignX: number,
+  topY: number,
+  scale = 1,
+  maxWidth?: number
+) => {
+  const { groupScale } = ctx;
+  const style = textStyle(ctx, 'price');
+  const priceSize = style.fontSize;
+  const font = style.fontFamily;
+  const formattedPrice = formatPrice(price);
+  const splitIndex = formattedPrice.lastIndexOf('.');
+  const mainPrice = splitIndex > -1 ? formattedPrice.slice(0, splitIndex) : formattedPrice;
+  const tailDigits = splitIndex > -1 ? formattedPrice.slice(splitIndex + 1) : '';
+
+  const measureWidth = (sizeScale: number) => {
+    const localPrice = priceSize * sizeScale;
+    const gapMain = 6 * groupScale * sizeScale;
+    const gapTail = tailDigits ? 4 * groupScale * sizeScale : 0;
+    const currencyWidth = scaledWidth(new FabricText('Rp.', {
+      fontSize: Math.max(12, localPrice * 0.4),
+      fontFamily: font,
+      fontWeight: '700',
+    }));
+    const promoWidth = scaledWidth(new FabricText(mainPrice, {
+      fontSize: localPrice,
+      fontFamily: font,
+      fontWeight: style.fontWeight,
+    }));
+    const tailWidth = tailDigits
+      ? scaledWidth(new FabricText(`.${tailDigits}`, {
+        fontSize: Math.max(10, localPrice * 0.35),
+        fontFamily: font,
+        fontWeight: '800',
+      }))
+      : 0;
+    const uomWidth = uomLabel
+      ? scaledWidth(new FabricText(`/${uomLabel}`, {
+        fontSize: Math.max(10, localPrice * 0.22),
+        fontFamily: font,
+        fontWeight: '600',
+      }))
+      : 0;
+    return currencyWidth + gapMain + promoWidth + gapTail + Math.max(tailWidth, uomWidth);
+  };
+
+  let sizeScale = scale;
+  if (maxWidth) {
+    const minScale = 0.6;
+    while (sizeScale > minScale && measureWidth(sizeScale) > maxWidth) {
+      sizeScale = Math.max(minScale, sizeScale - 0.04);
+    }
+  }
+
+  const localPriceSize = priceSize * sizeScale;
+
+  const currencyText = new FabricText('Rp.', {
+    left: alignX,
+    top: topY + localPriceSize * 0.12,
+    fontSize: Math.max(12, localPriceSize * 0.4),
+    fontFamily: font,
+    fontWeight: '700',
+    fill: style.fill,
+    originX: 'left',
+    originY: 'top',
+  });
+  const currencyWidth = scaledWidth(currencyText);
+
+  const promoText = new FabricText(mainPrice, {
+    ...style,
+    left: alignX,
+    top: topY,
+    fontSize: localPriceSize,
+    originX: 'left',
+    originY: 'top',
+  });
+  const promoWidth = scaledWidth(promoText);
+
+  let tailTop = topY;
+  let tailHeight = 0;
+  let tailWidth = 0;
+  let tailText: FabricText | null = null;
+  if (tailDigits) {
+    const tailSize = Math.max(10, localPriceSize * 0.35);
+    tailText = new FabricText(`.${tailDigits}`, {
+      left: alignX,
+      top: topY + localPriceSize * 0.08,
+      fontSize: tailSize,
+      fontFamily: font,
+      fontWeight: '800',
+      fill: style.fill,
+      originX: 'left',
+      originY: 'top',
+    });
+    tailTop = tailText.top ?? tailTop;
+    tailHeight = tailText.getScaledHeight?.() ?? tailText.height ?? tailSize;
+    tailWidth = scaledWidth(tailText);
+  }
+
+  const gapMain = 6 * groupScale * sizeScale;
+  const gapTail = tailDigits ? 4 * groupScale * sizeScale : 0;
+  const totalWidth = currencyWidth + gapMain + promoWidth + gapTail + (tailDigits ? tailWidth : 0);
+  const startX = alignX - totalWidth / 2;
+
+  currencyText.set({ left: startX });
+  promoText.set({ left: startX + currencyWidth + gapMain });
+  if (tailText) {
+    tailText.set({ left: startX + currencyWidth + gapMain + promoWidth + gapTail });
+  }
+
+  ctx.objects.push(currencyText);
+  ctx.objects.push(promoText);
+  if (tailText) {
+    ctx.objects.push(tailText);
+  }
+
+  if (uomLabel) {
+    const uomLeft = startX + currencyWidth + gapMain + promoWidth + gapTail;
+    const uomTop = tailDigits ? tailTop + tailHeight + 1 * groupScale : topY + localPriceSize * 0.35;
+    ctx.objects.push(new FabricText(`/${uomLabel}`, {
+      left: uomLeft,
+      top: uomTop,
+      fontSize: Math.max(10, localPriceSize * 0.22),
+      fontFamily: font,
+      fontWeight: '600',
+      fill: style.fill,
+      originX: 'left',
+      originY: 'top',
+    }));
+  }
+
+  const promoHeight = promoText.getScaledHeight?.() ?? promoText.height ?? localPriceSize;
+  return Math.max(promoHeight, tailTop - topY + tailHeight);
+};
+
+// Granite: price per piece and per metre in two columns
+const renderMeterPrices = (ctx: PopDrawContext, meterPrices: { base: number; final: number }) => {
+  const { flow, groupScale } = ctx;
+  const { hasAnyDiscount, primaryPrice } = ctx.pricing;
+  const baseScale = METER_PRICE_SCALE[ctx.settings.layout];
+  const meterScale = hasAnyDiscount ? baseScale : baseScale * 1.12;
+  const columnGap = Math.max(20 * groupScale, flow.contentWidth * 0.1);
+  const columnWidth = (flow.contentWidth - columnGap) / 2;
+  const leftCenter = flow.centerX - (columnWidth / 2 + columnGap / 2);
+  const rightCenter = flow.centerX + (columnWidth / 2 + columnGap / 2);
+  const strikeScale = meterScale * 0.9;
+  if (hasAnyDiscount) {
+    const leftStrikeHeight = renderStrikePrice(ctx, primaryPrice.normalPrice, primaryPrice.uom, leftCenter, strikeScale);
+    const rightStrikeHeight = renderStrikePrice(ctx, meterPrices.base, 'Mtr', rightCenter, strikeScale);
+    flow.currentY += Math.max(leftStrikeHeight, rightStrikeHeight);
+  }
+
+  const leftHeight = renderPriceAmount(
+    ctx, primaryPrice.promoPrice, primaryPrice.uom, leftCenter, flow.currentY, meterScale, columnWidth
+  );
+  const rightHeight = renderPriceAmount(ctx, meterPrices.final, 'Mtr', rightCenter, flow.currentY, meterScale, columnWidth);
+  flow.currentY += Math.max(leftHeight, rightHeight) + 10 * groupScale;
+};
+
+// Several units (e.g. per piece and per box): one smaller row each
+const renderPriceRows = (ctx: PopDrawContext) => {
+  const { flow, groupScale } = ctx;
+  const { priceRows } = ctx.pricing;
+  const rowScale = priceRows.length >= 3 ? 0.58 : 0.72;
+  const strikeScale = rowScale * 0.48;
+  const rowGap = 3 * groupScale;
+  const separatorGap = 3 * groupScale;
+  priceRows.forEach((row, index) => {
+    const effectivePromo = row.promoPrice > 0 ? row.promoPrice : row.normalPrice;
+    const hasStrike = ctx.settings.showStrikePrice && row.normalPrice > 0 && row.normalPrice > effectivePromo;
+    if (hasStrike) {
+      flow.currentY += renderStrikePrice(ctx, row.normalPrice, row.uom, flow.centerX, strikeScale, 0.4);
+    }
+    const promoHeight = renderPriceAmount(
+      ctx,
+      effectivePromo,
+      row.uom,
+      flow.centerX,
+      flow.currentY,
+      rowScale,
+      flow.contentWidth * 0.9
+    );
+    flow.currentY += promoHeight + rowGap;
+    if (index < priceRows.length - 1) {
+      const separatorWidth = flow.contentWidth * 0.86;
+      ctx.objects.push(new Line(
+        [flow.centerX - separatorWidth / 2, flow.currentY, flow.centerX + separatorWidth / 2, flow.currentY],
+        { stroke: SEPARATOR_COLOR, strokeWidth: 1 },
+      ));
+      flow.currentY += separatorGap;
+    }
+  });
+};
+
+const renderPrice: BlockRenderer<'price'> = (ctx, block) => {
+  const { flow, groupScale } = ctx;
+  const { hasAnyDiscount, isDiscountOnly, meterPrices, priceRows, primaryPrice } = ctx.pricing;
+  // Discount-only tags have no price; the discount block fills the space instead
+  if (isDiscountOnly) return;
+  placeInZone(ctx, 'price', () => {
+    if (meterPrices && priceRows.length <= 1) {
+      renderMeterPrices(ctx, meterPrices);
+      return;
+    }
+    if (priceRows.length > 1) {
+      renderPriceRows(ctx);
+      return;
+    }
+    if (hasAnyDiscount) {
+      placeInZone(ctx, 'strikePrice', () => {
+        flow.currentY += renderStrikePrice(ctx, primaryPrice.normalPrice, primaryPrice.uom, flow.centerX);
+      });
+    }
+    const scale = hasAnyDiscount ? block.scale : block.undiscountedScale ?? block.scale;
+    const promoHeight = renderPriceAmount(
+      ctx, primaryPrice.promoPrice, primaryPrice.uom, flow.centerX, flow.currentY, scale, flow.contentWidth
+    );
+    flow.currentY += promoHeight + 10 * groupScale;
+  });
+};
+
+/** Rounded card with a coloured header; the caller fills in the text. */
+const pushCard = (
+  ctx: PopDrawContext,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  headerHeight: number,
+  headerColors: [string, string],
+  shadow: boolean
+) => {
+  const radius = 16 * ctx.groupScale;
+  ctx.objects.push(new Rect({
+    left,
+    top,
+    width,
+    height,
+    fill: CARD_FILL,
+    stroke: CARD_STROKE,
+    strokeWidth: 1,
+    rx: radius,
+    ry: radius,
+    shadow: shadow ? cardShadow() : null,
+  }));
+  ctx.objects.push(new Rect({
+    left,
+    top,
+    width,
+    height: headerHeight,
+    fill: new Gradient({
+      type: 'linear',
+      coords: { x1: left, y1: top, x2: left + width, y2: top },
+      colorStops: [
+        { offset: 0, color: headerColors[0] },
+        { offset: 1, color: headerColors[1] },
+      ],
+    }),
+    rx: radius,
+    ry: radius,
+  }));
+};
+
+// "Potongan Harga" card for a rupiah cut
+const renderCutBadge = (ctx: PopDrawContext) => {
+  const { flow, groupScale } = ctx;
+  const { cutValue, isDiscountOnly } = ctx.pricing;
+  const labelStyle = textStyle(ctx, 'badgeLabel');
+  const valueStyle = textStyle(ctx, 'badgeValue');
+  const rowWidth = isDiscountOnly ? flow.contentWidth : flow.contentWidth * 0.6;
+  const rowHeight = BADGE_ROW_HEIGHT[ctx.settings.layout] * groupScale;
+  const heightScale = isDiscountOnly ? 1.6 : 1;
+  const headerRatio = isDiscountOnly ? 0.28 : 0.42;
+  const rowY = flow.currentY + 6 * groupScale;
+  const headerHeight = rowHeight * headerRatio * heightScale;
+
+  const headerColors = getBadgeColors('discountBadge', ctx.theme);
+  pushCard(ctx, flow.centerX - rowWidth / 2, rowY, rowWidth, rowHeight * heightScale, headerHeight, headerColors, true);
+  ctx.objects.push(new FabricText('POTONGAN HARGA', {
+    ...labelStyle,
+    left: flow.centerX,
+    top: rowY + headerHeight * 0.5,
+    fontSize: labelStyle.fontSize * (isDiscountOnly ? 1.4 : 1),
+    originX: 'center',
+    originY: 'center',
+  }));
+  ctx.objects.push(new FabricText(`Rp ${formatPrice(cutValue)}`, {
+    ...valueStyle,
+    left: flow.centerX,
+    top: rowY + headerHeight + (rowHeight * heightScale - headerHeight) * 0.55,
+    fontSize: valueStyle.fontSize * (isDiscountOnly ? 1.8 : 1),
+    fill: VALUE_COLOR,
+    originX: 'center',
+    originY: 'center',
+  }));
+  flow.currentY = rowY + rowHeight * heightScale;
+};
+
+// Discount and member percentages, one card cell each
+const renderPercentBadges = (ctx: PopDrawContext) => {
+  const { product, flow, groupScale } = ctx;
+  const { baseDiscount, disc2, disc3, disc4AsDiscount, member, isDiscountOnly } = ctx.pricing;
+  const discountParts = [baseDiscount, disc2, disc3, disc4AsDiscount].filter((value) => value > 0);
+  const discountValue = discountParts.map((value) => `${formatPercentValue(value)}%`).join(' + ');
+  const discountLabel = product.upTo ? 'DISKON UP TO' : 'DISKON';
+  const items = [
+    discountParts.length > 0
+      ? { label: discountLabel, value: discountValue, colors: getBadgeColors('discountBadge', ctx.theme) }
+      : null,
+    member > 0
+      ? { label: 'MEMBER', value: `${formatPercentValue(member)}%`, colors: getBadgeColors('memberBadge', ctx.theme) }
+      : null,
+  ].filter(Boolean) as { label: string; value: string; colors: [string, string] }[];
+
+  if (items.length === 0) {
+    return;
+  }
+
+  const labelStyle = textStyle(ctx, 'badgeLabel');
+  const valueStyle = textStyle(ctx, 'badgeValue');
+  const labelFontSize = labelStyle.fontSize * (isDiscountOnly ? 1.7 : 1);
+  const valueFontSize = valueStyle.fontSize * (isDiscountOnly ? 2.2 : 1);
+  const font = { fontFamily: labelStyle.fontFamily, fontWeight: '800' };
+  let rowWidth = items.length === 1 ? flow.contentWidth * 0.4 : flow.contentWidth;
+  if (isDiscountOnly) {
+    rowWidth = flow.contentWidth;
+  }
+  if (items.length === 1) {
+    const labelWidth = scaledWidth(new FabricText(items[0].label, { fontSize: labelFontSize, ...font }));
+    const valueWidth = scaledWidth(new FabricText(items[0].value, { fontSize: valueFontSize, ...font }));
+    const textWidth = Math.max(labelWidth, valueWidth);
+    rowWidth = Math.min(flow.contentWidth, Math.max(flow.contentWidth * 0.4, textWidth + 36 * groupScale));
+  }
+  const rowHeight = BADGE_ROW_HEIGHT[ctx.settings.layout] * groupScale;
+  const heightScale = isDiscountOnly ? 2 : 1;
+  const headerRatio = isDiscountOnly ? 0.3 : 0.42;
+  const rowY = flow.currentY + 6 * groupScale;
+  const headerHeight = rowHeight * headerRatio * heightScale;
+  const radius = 16 * groupScale;
+
+  ctx.objects.push(new Rect({
+    left: flow.centerX - rowWidth / 2,
+    top: rowY,
+    width: rowWidth,
+    height: rowHeight * heightScale,
+    fill: CARD_FILL,
+    stroke: CARD_STROKE,
+    strokeWidth: 1,
+    rx: radius,
+    ry: radius,
+    shadow: cardShadow(),
+  }));
+
+  const cellWidth = rowWidth / items.length;
+
+  items.forEach((item, index) => {
+    const cellX = flow.centerX - rowWidth / 2 + cellWidth * index;
+    const textMaxWidth = Math.max(40, cellWidth - 24 * groupScale);
+    const dynamicLabelSize = fitTextToWidth(
+      item.label,
+      textMaxWidth,
+      labelFontSize,
+      Math.max(10, labelFontSize * 0.7),
+      font
+    );
+    const dynamicValueSize = fitTextToWidth(
+      item.value,
+      textMaxWidth,
+      valueFontSize,
+      Math.max(16, valueFontSize * 0.5),
+      font
+    );
+
+    pushCard(ctx, cellX, rowY, cellWidth, rowHeight * heightScale, headerHeight, item.colors, false);
+
+    ctx.objects.push(new FabricText(item.label, {
+      ...labelStyle,
+      left: cellX + cellWidth / 2,
+      top: rowY + headerHeight * 0.5,
+      fontSize: dynamicLabelSize,
+      originX: 'center',
+      originY: 'center',
+    }));
+    ctx.objects.push(new FabricText(item.value, {
+      ...valueStyle,
+      left: cellX + cellWidth / 2,
+      top: rowY + headerHeight + (rowHeight * heightScale - headerHeight) * 0.55,
+      fontSize: dynamicValueSize,
+      fill: items.length > 1 ? VALUE_COLOR : valueStyle.fill,
+      originX: 'center',
+      originY: 'center',
+    }));
+
+    if (items.length > 1 && index > 0) {
+      ctx.objects.push(new Line([cellX, rowY + 6, cellX, rowY + rowHeight * heightScale - 6], {
+        stroke: SEPARATOR_COLOR,
+        strokeWidth: 1,
+      }));
+    }
+  });
+  flow.currentY = rowY + rowHeight * heightScale;
+};
+
+// One oversized value: the cut amount, the summed-up percentages or the member percentage
+const renderHeroDiscount = (ctx: PopDrawContext, fill: string) => {
+  const { product, flow, groupScale } = ctx;
+  const { baseDiscount, disc2, disc3, disc4AsDiscount, member, cutValue } = ctx.pricing;
+  const discountParts = [baseDiscount, disc2, disc3, disc4AsDiscount].filter((value) => value > 0);
+  let label: string;
+  let value: string;
+  if (cutValue > 0) {
+    label = 'HEMAT';
+    value = `Rp ${formatPrice(cutValue)}`;
+  } else if (discountParts.length > 0) {
+    label = product.upTo ? 'DISKON UP TO' : 'DISKON';
+    value = discountParts.map((part) => `${formatPercentValue(part)}%`).join(' + ');
+  } else if (member > 0) {
+    label = 'MEMBER';
+    value = `${formatPercentValue(member)}%`;
+  } else {
+    return;
+  }
+  const memberNote = member > 0 && label !== 'MEMBER' ? `+ MEMBER ${formatPercentValue(member)}%` : null;
+
+  const labelStyle = textStyle(ctx, 'badgeLabel');
+  const heroStyle = textStyle(ctx, 'hero');
+  const padding = 12 * groupScale;
+  const labelSize = labelStyle.fontSize * 1.4;
+  const noteSize = labelStyle.fontSize * 1.2;
+  const valueSize = fitTextToWidth(
+    value,
+    flow.contentWidth - padding * 2,
+    heroStyle.fontSize,
+    heroStyle.fontSize * 0.35,
+    { fontFamily: heroStyle.fontFamily, fontWeight: heroStyle.fontWeight }
+  );
+  const boxTop = flow.currentY + 6 * groupScale;
+  const boxHeight = padding * 2 + labelSize + valueSize + (memberNote ? noteSize + 4 * groupScale : 0);
+
+  ctx.objects.push(new Rect({
+    left: flow.centerX - flow.contentWidth / 2,
+    top: boxTop,
+    width: flow.contentWidth,
+    height: boxHeight,
+    fill,
+    rx: 16 * groupScale,
+    ry: 16 * groupScale,
+  }));
+  ctx.objects.push(new FabricText(label, {
+    ...labelStyle,
+    left: flow.centerX,
+    top: boxTop + padding,
+    fontSize: labelSize,
+    originX: 'center',
+    originY: 'top',
+  }));
+  ctx.objects.push(new FabricText(value, {
+    ...heroStyle,
+    left: flow.centerX,
+    top: boxTop + padding + labelSize,
+    fontSize: valueSize,
+    originX: 'center',
+    originY: 'top',
+  }));
+  if (memberNote) {
+    ctx.objects.push(new FabricText(memberNote, {
+      ...labelStyle,
+      left: flow.centerX,
+      top: boxTop + padding + labelSize + valueSize + 4 * groupScale,
+      fontSize: noteSize,
+      originX: 'center',
+      originY: 'top',
+    }));
+  }
+  flow.currentY = boxTop + boxHeight + 10 * groupScale;
+};
+
+const renderDiscount: BlockRenderer<'discount'> = (ctx, block) => {
+  const { cutValue, baseDiscount, disc2, disc3, disc4AsDiscount, member } = ctx.pricing;
+  placeInZone(ctx, 'discount', () => {
+    if (block.style === 'hero') {
+      renderHeroDiscount(ctx, block.fill ?? getHeroFill(ctx.theme));
+    } else if (cutValue > 0) {
+      renderCutBadge(ctx);
+    } else if (baseDiscount > 0 || disc2 > 0 || disc3 > 0 || disc4AsDiscount > 0 || member > 0) {
+      renderPercentBadges(ctx);
+    }
+  });
+};
+
+// Shares the discount element: a template's discount zone holds whichever promo the layout shows
+const renderBanner: BlockRenderer<'banner'> = (ctx, block) => {
+  const { flow, groupScale } = ctx;
+  placeInZone(ctx, 'discount', () => {
+    const style = textStyle(ctx, 'banner');
+    const padding = 10 * groupScale;
+    const textSize = fitTextToWidth(
+      block.text,
+      flow.contentWidth - padding * 2,
+      style.fontSize,
+      style.fontSize * 0.5,
+      { fontFamily: style.fontFamily, fontWeight: style.fontWeight }
+    );
+    const subtextSize = block.subtext ? Math.max(10, textSize * 0.4) : 0;
+    const boxTop = flow.currentY + 6 * groupScale;
+    const boxHeight = padding * 2 + textSize + (block.subtext ? subtextSize + 2 * groupScale : 0);
+
+    ctx.objects.push(new Rect({
+      left: flow.centerX - flow.contentWidth / 2,
+      top: boxTop,
+      width: flow.contentWidth,
+      height: boxHeight,
+      fill: block.fill,
+      rx: 12 * groupScale,
+      ry: 12 * groupScale,
+    }));
+    ctx.objects.push(new FabricText(block.text, {
+      ...style,
+      left: flow.centerX,
+      top: boxTop + padding,
+      fontSize: textSize,
+      originX: 'center',
+      originY: 'top',
+    }));
+    if (block.subtext) {
+      ctx.objects.push(new FabricText(block.subtext, {
+        ...style,
+        left: flow.centerX,
+        top: boxTop + padding + textSize + 2 * groupScale,
+        fontSize: subtextSize,
+        fontWeight: '600',
+        originX: 'center',
+        originY: 'top',
+      }));
+    }
+    flow.currentY = boxTop + boxHeight + 10 * groupScale;
+  });
+};
+
+// Below the content and kept inside the cell, or in the template's barcode zone
+const renderBarcode: BlockRenderer<'barcode'> = (ctx) => {
+  const { product, settings, flow, cell, groupScale } = ctx;
+  if (!settings.showBarcode || product.isCustom) return;
+
+  const barcodeFrame = ctx.zoneFrames?.barcode;
+  let barcodeGroup: Group | null;
+  if (barcodeFrame) {
+    // Bars plus the digits underneath take roughly 1.6x the bar height
+    barcodeGroup = drawBarcode(
+      product.barcode,
+      barcodeFrame.left + barcodeFrame.width / 2,
+      barcodeFrame.top,
+      barcodeFrame.width,
+      barcodeFrame.height / 1.6
+    );
+  } else {
+    const barcodeHeight = BARCODE_HEIGHT[settings.layout] * groupScale;
+    const barcodeWidth = flow.contentWidth * (settings.layout === '4' ? 0.7 : 0.5);
+    const maxTop = cell.y + cell.height - barcodeHeight * 1.6 - 12 * groupScale;
+    const barcodeTop = Math.min(flow.currentY + 14 * groupScale, maxTop);
+    barcodeGroup = drawBarcode(product.barcode, flow.centerX, barcodeTop, barcodeWidth, barcodeHeight);
+  }
+  if (barcodeGroup) {
+    ctx.objects.push(barcodeGroup);
+    ctx.elementKeys.set(barcodeGroup, 'barcode');
+  }
+};
+
+const BLOCK_RENDERERS: { [T in PopBlockType]: BlockRenderer<T> } = {
+  image: renderImage,
+  brand: renderBrand,
+  name: renderName,
+  description: renderDescription,
+  divider: renderDivider,
+  price: renderPrice,
+  discount: renderDiscount,
+  banner: renderBanner,
+  barcode: renderBarcode,
+};
+
+// One sub-group per element, stacked where its first object was drawn
+const buildPopGroup = (objects: FabricObject[], elementKeys: Map<FabricObject, TemplateZoneKey>) => {
+  const layers: (FabricObject | TemplateZoneKey)[] = [];
+  const members = new Map<TemplateZoneKey, FabricObject[]>();
+  objects.forEach((object) => {
+    const key = elementKeys.get(object);
+    if (!key) {
+      layers.push(object);
+      return;
+    }
+    if (!members.has(key)) {
+      members.set(key, []);
+      layers.push(key);
+    }
+    members.get(key)?.push(object);
+  });
+  const children = layers.map((layer) => {
+    if (typeof layer !== 'string') return layer;
+    const element = new Group(members.get(layer) ?? []);
+    popElementKeys.set(element, layer);
+    return element;
+  });
+  // Fixed bounds: moving an element must not shift the group's own position
+  return new Group(children, { layoutManager: new LayoutManager(new FixedLayout()) });
+};
+
+export interface PopItemOptions {
+  product: Product;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  settings: PopSettingsState;
+  layout: PopLayout;
+  /** Template fonts and colours; built-in ones when missing */
+  theme?: PopTheme;
+  /** Cell size relative to its A4 counterpart */
+  cellScale: number;
+  /** Custom templates bring their own artwork, so the plain white card is skipped */
+  hasCustomTemplate?: boolean;
+  zoneFrames?: ZoneFrames;
+  brandDisplay?: BrandDisplay;
+}
+
+export const drawPopItem = async ({
+  product,
+  x,
+  y,
+  width,
+  height,
+  settings,
+  layout,
+  theme,
+  cellScale,
+  hasCustomTemplate = false,
+  zoneFrames,
+  brandDisplay = 'logo',
+}: PopItemOptions): Promise<Group> => {
+  const frame = getLayoutFrame(layout);
+  const groupScale = frame.scale[settings.layout] * BASE_SCALE * cellScale;
+  const base = {
+    centerX: x + width / 2,
+    currentY: y + height * frame.top,
+    contentWidth: width * frame.width[settings.layout],
+  };
+  const ctx: PopDrawContext = {
+    product,
+    settings,
+    layout,
+    theme,
+    pricing: getPricing(product),
+    brandDisplay,
+    zoneFrames,
+    cell: { x, y, width, height },
+    groupScale,
+    objects: [],
+    elementKeys: new Map(),
+    flow: { ...base },
+  };
+
+  if (!hasCustomTemplate) {
+    ctx.objects.push(new Rect({
+      left: x,
+      top: y,
+      width,
+      height,
+      fill: '#ffffff',
+      stroke: SEPARATOR_COLOR,
+      strokeWidth: 1,
+    }));
+  }
+
+  const columnGap = COLUMN_GAP * groupScale;
+  const leftWidth = (base.contentWidth - columnGap) * frame.columnSplit;
+  const rightWidth = base.contentWidth - columnGap - leftWidth;
+  const contentLeft = base.centerX - base.contentWidth / 2;
+  const columnFrames = {
+    left: { centerX: contentLeft + leftWidth / 2, contentWidth: leftWidth },
+    right: { centerX: contentLeft + leftWidth + columnGap + rightWidth / 2, contentWidth: rightWidth },
+  };
+  // Bottom of each column while a run of column blocks is open
+  let columns: Record<'left' | 'right', number> | null = null;
+
+  for (const block of layout.blocks) {
+    const render = BLOCK_RENDERERS[block.type] as BlockRenderer<PopBlockType>;
+    // Layouts are stored data; a block type this build doesn't know is skipped rather than crashing the POP
+    if (!render) continue;
+    if (block.column) {
+      columns = columns ?? { left: ctx.flow.currentY, right: ctx.flow.currentY };
+      Object.assign(ctx.flow, columnFrames[block.column], { currentY: columns[block.column] });
+      await render(ctx, block);
+      columns[block.column] = ctx.flow.currentY;
+      continue;
+    }
+    if (columns) {
+      ctx.flow.currentY = Math.max(columns.left, columns.right);
+      columns = null;
+    }
+    ctx.flow.centerX = base.centerX;
+    ctx.flow.contentWidth = base.contentWidth;
+    await render(ctx, block);
+  }
+
+  return buildPopGroup(ctx.objects, ctx.elementKeys);
+};
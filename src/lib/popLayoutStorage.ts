@@ -0,0 +1,102 @@
+/**
+ * POP layout storage
+ * Layout descriptions live in a server registry that admins edit; the server checks
+ * every block against the schema in popLayouts.ts before storing it.
+ */
+import { getAuthToken } from '@/lib/auth';
+import { PopLayout, getPopLayouts, setPopLayouts } from '@/lib/popLayouts';
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const authHeaders = (json = false): HeadersInit => {
+  const token = getAuthToken();
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+let loading: Promise<PopLayout[]> | null = null;
+const listeners = new Set<(layouts: PopLayout[]) => void>();
+
+const publish = (layouts: PopLayout[]) => {
+  setPopLayouts(layouts);
+  listeners.forEach((listener) => listener(getPopLayouts()));
+};
+
+class PopLayoutStorageService {
+  async getLayouts(): Promise<PopLayout[]> {
+    const response = await fetch('/api/pop-layouts');
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async saveLayout(layout: PopLayout): Promise<PopLayout> {
+    const response = await fetch(`/api/pop-layouts/${encodeURIComponent(layout.id)}`, {
+      method: 'PUT',
+      headers: authHeaders(true),
+      body: JSON.stringify(layout),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    const saved: PopLayout = await response.json();
+    const layouts = getPopLayouts();
+    publish(
+      layouts.some((item) => item.id === saved.id)
+        ? layouts.map((item) => (item.id === saved.id ? saved : item))
+        : [...layouts, saved]
+    );
+    return saved;
+  }
+
+  async deleteLayout(id: string): Promise<void> {
+    const response = await fetch(`/api/pop-layouts/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    publish(getPopLayouts().filter((layout) => layout.id !== id));
+  }
+}
+
+export const popLayoutStorage = new PopLayoutStorageService();
+
+/**
+ * Fetches the registry once per page load.
+ * A failed request keeps the built-in standard layout so POPs still render.
+ */
+export const loadPopLayouts = (): Promise<PopLayout[]> => {
+  if (!loading) {
+    loading = popLayoutStorage.getLayouts()
+      .then((layouts) => {
+        publish(layouts);
+        return getPopLayouts();
+      })
+      .catch((error) => {
+        console.error('Failed to load POP layouts:', error);
+        loading = null;
+        return getPopLayouts();
+      });
+  }
+  return loading;
+};
+
+/** Called with the new list after every load, save or delete; returns the unsubscribe. */
+export const subscribePopLayouts = (listener: (layouts: PopLayout[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * POP layout registry
+ * A layout is a declarative list of blocks plus typography; popBlocks.ts draws them.
+ * Layouts are data stored on the server (seeded from server/seeds/pop-layouts.json), so a
+ * new arrangement is a new registry entry rather than a code change. Templates choose a
+ * default layout and a queue entry may override it.
+ * Fonts and colours come from the template's theme on top of the layout's typography.
+ */
+import type { PopSettingsState } from '@/components/PopSettings';
+import { fontStackFor } from '@/lib/fontStorage';
+
+/** Cells per page: full, half or quarter sheet */
+export type PopGrid = PopSettingsState['layout'];
+
+/** A value per grid, tuned at A4 and scaled with the cell */
+export type PopGridValue = Record<PopGrid, number>;
+
+export type PopTextRole =
+  | 'brand'
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'strike'
+  | 'badgeLabel'
+  | 'badgeValue'
+  | 'hero'
+  | 'banner';
+
+export interface PopTextStyle {
+  size: PopGridValue;
+  weight: string;
+  color: string;
+  fontFamily: string;
+}
+
+/** Blocks in a column share the rows below the last full-width block; the next full-width block starts below both. */
+export type PopColumn = 'left' | 'right';
+
+interface PopBlockBase {
+  column?: PopColumn;
+}
+
+export type PopBlock = PopBlockBase & (
+  /** Product photo; needs an image zone unless `height` (fraction of the cell) reserves room in the flow */
+  | { type: 'image'; height?: number }
+  | { type: 'brand' }
+  | {
+      type: 'name';
+      maxLines: number;
+      /** Discounted tags give the name less room */
+      discountedMaxLines?: number;
+      /** Size multiplier when there is no discount to show */
+      undiscountedScale?: number;
+    }
+  | { type: 'description' }
+  | { type: 'divider' }
+  | {
+      type: 'price';
+      scale: number;
+      undiscountedScale?: number;
+    }
+  /** badges: discount and member cards; hero: one oversized percentage or cut amount. `fill` beats the theme. */
+  | { type: 'discount'; style: 'badges' | 'hero'; fill?: string }
+  /** Fixed promo line such as a bundle deal */
+  | { type: 'banner'; text: string; subtext?: string; fill: string }
+  | { type: 'barcode' }
+);
+
+export type PopBlockType = PopBlock['type'];
+
+/** Per-template look; every key is optional and falls back to the built-in colours. */
+export interface PopTheme {
+  /** Uploaded font family; Inter when empty */
+  fontFamily?: string;
+  brandColor?: string;
+  priceColor?: string;
+  strikeColor?: string;
+  /** Percentage and cut amount inside the badges */
+  badgeTextColor?: string;
+  /** Header gradient stops of the discount badge */
+  discountBadge?: [string, string];
+  memberBadge?: [string, string];
+  /** Box behind the oversized discount of hero layouts */
+  heroFill?: string;
+}
+
+export type PopBadgeKind = 'discountBadge' | 'memberBadge';
+
+export interface PopLayout {
+  id: string;
+  label: string;
+  description: string;
+  /** Top of the block flow, as a fraction of the cell height */
+  top?: number;
+  /** Content width, as a fraction of the cell width */
+  width?: PopGridValue;
+  /** Type scale on top of the cell scale */
+  scale?: PopGridValue;
+  /** Share of the content width given to the left column */
+  columnSplit?: number;
+  typography?: Partial<Record<PopTextRole, Partial<PopTextStyle>>>;
+  blocks: PopBlock[];
+}
+
+export const DEFAULT_POP_LAYOUT_ID = 'standard';
+
+const DEFAULT_FRAME = {
+  top: 0.3,
+  width: { 1: 0.88, 2: 0.84, 4: 0.74 } as PopGridValue,
+  scale: { 1: 1.22, 2: 1.16, 4: 1.1 } as PopGridValue,
+  columnSplit: 0.5,
+};
+
+const FONT_FAMILY = 'Inter, sans-serif';
+
+const DEFAULT_HERO_FILL = '#dc2626';
+
+const DEFAULT_BADGE_COLORS: Record<PopBadgeKind, [string, string]> = {
+  discountBadge: ['#ef4444', '#ef4444'],
+  memberBadge: ['#1d4ed8', '#60a5fa'],
+};
+
+// Roles whose colour a theme may replace
+const THEME_COLOR_ROLES: Partial<Record<PopTextRole, 'brandColor' | 'priceColor' | 'strikeColor' | 'badgeTextColor'>> = {
+  brand: 'brandColor',
+  price: 'priceColor',
+  strike: 'strikeColor',
+  badgeValue: 'badgeTextColor',
+};
+
+const DEFAULT_TYPOGRAPHY: Record<PopTextRole, PopTextStyle> = {
+  brand: { size: { 1: 42, 2: 39, 4: 36 }, weight: '700', color: '#374151', fontFamily: FONT_FAMILY },
+  name: { size: { 1: 19, 2: 15, 4: 11 }, weight: '700', color: '#111827', fontFamily: FONT_FAMILY },
+  description: { size: { 1: 16, 2: 14, 4: 12 }, weight: '500', color: '#6b7280', fontFamily: FONT_FAMILY },
+  price: { size: { 1: 78, 2: 62, 4: 50 }, weight: '900', color: '#0284c7', fontFamily: FONT_FAMILY },
+  strike: { size: { 1: 22, 2: 20, 4: 18 }, weight: 'normal', color: '#dc2626', fontFamily: FONT_FAMILY },
+  badgeLabel: { size: { 1: 14, 2: 13, 4: 12 }, weight: '800', color: '#ffffff', fontFamily: FONT_FAMILY },
+  badgeValue: { size: { 1: 38, 2: 31, 4: 26 }, weight: '800', color: '#dc2626', fontFamily: FONT_FAMILY },
+  hero: { size: { 1: 150, 2: 120, 4: 90 }, weight: '900', color: '#ffffff', fontFamily: FONT_FAMILY },
+  banner: { size: { 1: 44, 2: 36, 4: 28 }, weight: '900', color: '#ffffff', fontFamily: FONT_FAMILY },
+};
+
+/**
+ * Built-in standard layout. The server registry is seeded with it (and the other presets),
+ * and it is what renders until that registry has loaded or when it cannot be reached.
+ */
+const STANDARD_LAYOUT: PopLayout = {
+  id: DEFAULT_POP_LAYOUT_ID,
+  label: 'Standar',
+  description: 'Brand, nama, harga dan badge diskon bertumpuk di tengah',
+  blocks: [
+    { type: 'image' },
+    { type: 'brand' },
+    { type: 'name', maxLines: 2, discountedMaxLines: 1, undiscountedScale: 1.15 },
+    { type: 'description' },
+    { type: 'divider' },
+    { type: 'price', scale: 1.45, undiscountedScale: 1.65 },
+    { type: 'discount', style: 'badges' },
+    { type: 'barcode' },
+  ],
+};
+
+let registry: PopLayout[] = [STANDARD_LAYOUT];
+
+/** Layouts currently known to the renderer; see popLayoutStorage for loading them. */
+export const getPopLayouts = () => registry;
+
+export const setPopLayouts = (layouts: PopLayout[]) => {
+  registry = layouts.length > 0 ? layouts : [STANDARD_LAYOUT];
+};
+
+/** Unknown or missing ids fall back to the standard layout, so stale or deleted choices still render. */
+export const getPopLayout = (id?: string | null, layouts: PopLayout[] = registry): PopLayout =>
+  layouts.find((layout) => layout.id === id) ??
+  layouts.find((layout) => layout.id === DEFAULT_POP_LAYOUT_ID) ??
+  STANDARD_LAYOUT;
+
+/** A queue entry's own choice wins over the template default. */
+export const resolvePopLayout = (
+  productLayout?: string,
+  templateLayout?: string,
+  layouts: PopLayout[] = registry
+): PopLayout => getPopLayout(productLayout || templateLayout, layouts);
+
+export const getLayoutFrame = (layout: PopLayout) => ({
+  top: layout.top ?? DEFAULT_FRAME.top,
+  width: layout.width ?? DEFAULT_FRAME.width,
+  scale: layout.scale ?? DEFAULT_FRAME.scale,
+  columnSplit: layout.columnSplit ?? DEFAULT_FRAME.columnSplit,
+});
+
+/** Layout typography first, then whatever the template theme sets. */
+export const getTextStyle = (layout: PopLayout, role: PopTextRole, theme?: PopTheme): PopTextStyle => {
+  const style = { ...DEFAULT_TYPOGRAPHY[role], ...layout.typography?.[role] };
+  const colorKey = THEME_COLOR_ROLES[role];
+  return {
+    ...style,
+    color: (colorKey && theme?.[colorKey]) || style.color,
+    fontFamily: theme?.fontFamily ? fontStackFor(theme.fontFamily) : style.fontFamily,
+  };
+};
+
+export const getBadgeColors = (kind: PopBadgeKind, theme?: PopTheme): [string, string] =>
+  theme?.[kind] ?? DEFAULT_BADGE_COLORS[kind];
+
+export const getHeroFill = (theme?: PopTheme) => theme?.heroFill || DEFAULT_HERO_FILL;
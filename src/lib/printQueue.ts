@@ -0,0 +1,71 @@
+/**
+ * Print queue entries.
+ * Every added product gets its own queue id, so the same SKU can sit in the queue
+ * more than once with its own overrides, transform and selection.
+ */
+
+import { Product } from '@/data/products';
+import type { PopItemTransform } from '@/components/PopPreview';
+
+export const createQueueId = () =>
+  `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Entries saved before queue ids existed fall back to their SKU. */
+export const getQueueId = (product: Product) => product.queueId ?? product.sku;
+
+export const withQueueId = (product: Product): Product =>
+  product.queueId ? product : { ...product, queueId: createQueueId() };
+
+/** Top-left corner of the page cell a POP is laid out in. */
+export interface CellOrigin {
+  x: number;
+  y: number;
+}
+
+type PlacedObject = Pick<PopItemTransform, 'scaleX' | 'scaleY' | 'angle'> & { left: number; top: number };
+
+/** A moved POP group, stored relative to its cell so each copy of an entry keeps its own cell. */
+export const toCellTransform = (cell: CellOrigin, object: PlacedObject): PopItemTransform => ({
+  x: object.left - cell.x,
+  y: object.top - cell.y,
+  scaleX: object.scaleX,
+  scaleY: object.scaleY,
+  angle: object.angle,
+});
+
+/** Fabric properties that put a stored group move back into `cell`; element offsets are left out. */
+export const fromCellTransform = (cell: CellOrigin, transform: PopItemTransform = {}) => {
+  const { elements, x, y, ...rest } = transform;
+  return {
+    ...rest,
+    ...(x !== undefined && y !== undefined ? { left: cell.x + x, top: cell.y + y } : {}),
+  };
+};
+
+// Saves from before copies held absolute left/top for the single POP on its page (cell origin 0,0)
+type LegacyItemTransform = PopItemTransform & { left?: number; top?: number };
+
+const migrateTransform = ({ left, top, ...transform }: LegacyItemTransform): PopItemTransform =>
+  left !== undefined && top !== undefined && transform.x === undefined
+    ? { ...transform, x: left, y: top }
+    : transform;
+
+/** Gives saved entries without an id one, moves their SKU-keyed transforms along and makes moves cell-relative. */
+export const migrateQueue = (
+  products: Product[],
+  itemTransforms: Record<string, PopItemTransform>
+): { products: Product[]; itemTransforms: Record<string, PopItemTransform> } => {
+  const transforms = Object.fromEntries(
+    Object.entries(itemTransforms).map(([key, transform]) => [key, migrateTransform(transform)])
+  );
+  const entries = products.map((product) => {
+    if (product.queueId) return product;
+    const entry = withQueueId(product);
+    if (transforms[product.sku]) {
+      transforms[entry.queueId] = transforms[product.sku];
+      delete transforms[product.sku];
+    }
+    return entry;
+  });
+  return { products: entries, itemTransforms: transforms };
+};
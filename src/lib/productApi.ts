@@ -8,6 +8,52 @@ const handleUnauthorized = () => {
   }
 };
 
+type NumericField = number | string | null;
+
+interface ProductResponse {
+  sku: string;
+  name: string;
+  description?: string;
+  barcode?: string;
+  category?: string;
+  brandSegment?: string;
+  descSegment?: string;
+  normalPrice?: NumericField;
+  promoPrice?: NumericField;
+  discount?: NumericField;
+  extraDiscount?: NumericField;
+  disc2?: NumericField;
+  disc3?: NumericField;
+  memberDiscount?: NumericField;
+  discountType?: Product["discountType"];
+  uom?: string;
+  basePricePerMeter?: NumericField;
+  finalPricePerMeter?: NumericField;
+  productImageUrl?: string;
+}
+
+const toProduct = (data: ProductResponse): Product => ({
+  sku: data.sku,
+  name: data.name,
+  description: data.description,
+  barcode: data.barcode,
+  category: data.category,
+  brandSegment: data.brandSegment,
+  descSegment: data.descSegment,
+  normalPrice: Number(data.normalPrice) || 0,
+  promoPrice: Number(data.promoPrice) || 0,
+  discount: Number(data.discount) || 0,
+  extraDiscount: data.extraDiscount ? Number(data.extraDiscount) : undefined,
+  disc2: data.disc2 ? Number(data.disc2) : undefined,
+  disc3: data.disc3 ? Number(data.disc3) : undefined,
+  memberDiscount: data.memberDiscount ? Number(data.memberDiscount) : undefined,
+  discountType: data.discountType || "percent",
+  uom: data.uom || undefined,
+  basePricePerMeter: data.basePricePerMeter ? Number(data.basePricePerMeter) : undefined,
+  finalPricePerMeter: data.finalPricePerMeter ? Number(data.finalPricePerMeter) : undefined,
+  productImageUrl: data.productImageUrl || undefined,
+});
+
 export const fetchProductBySku = async (sku: string): Promise<Product | null> => {
   const trimmed = sku.trim();
   if (!trimmed) return null;
@@ -25,26 +71,50 @@ export const fetchProductBySku = async (sku: string): Promise<Product | null> =>
   }
   const data = await response.json();
 
-  return {
-    sku: data.sku,
-    name: data.name,
-    description: data.description,
-    barcode: data.barcode,
-    category: data.category,
-    brandSegment: data.brandSegment,
-    descSegment: data.descSegment,
-    normalPrice: Number(data.normalPrice) || 0,
-    promoPrice: Number(data.promoPrice) || 0,
-    discount: Number(data.discount) || 0,
-    extraDiscount: data.extraDiscount ? Number(data.extraDiscount) : undefined,
-    disc2: data.disc2 ? Number(data.disc2) : undefined,
-    disc3: data.disc3 ? Number(data.disc3) : undefined,
-    memberDiscount: data.memberDiscount ? Number(data.memberDiscount) : undefined,
-    discountType: data.discountType || "percent",
-    uom: data.uom || undefined,
-    basePricePerMeter: data.basePricePerMeter ? Number(data.basePricePerMeter) : undefined,
-    finalPricePerMeter: data.finalPricePerMeter ? Number(data.finalPricePerMeter) : undefined,
-  };
+  return toProduct(data);
+};
+
+export interface ProductBatchResult {
+  products: Product[];
+  missing: string[];
+}
+
+// Matches MAX_BATCH_SKUS on the API server
+const PRODUCT_BATCH_SIZE = 500;
+
+export const fetchProductsBySkus = async (skus: string[]): Promise<ProductBatchResult> => {
+  const unique = [...new Set(skus.map((sku) => sku.trim()).filter(Boolean))];
+  const result: ProductBatchResult = { products: [], missing: [] };
+  const token = getAuthToken();
+
+  for (let index = 0; index < unique.length; index += PRODUCT_BATCH_SIZE) {
+    const chunk = unique.slice(index, index + PRODUCT_BATCH_SIZE);
+    const response = await fetch("/api/products/batch", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ skus: chunk }),
+    });
+    if (response.status === 401) {
+      handleUnauthorized();
+      return { products: [], missing: [] };
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      throw new Error(payload?.error || "Gagal mengambil data produk");
+    }
+    const data = await response.json();
+    if (Array.isArray(data?.items)) {
+      result.products.push(...data.items.map((item: ProductResponse) => toProduct(item)));
+    }
+    if (Array.isArray(data?.missing)) {
+      result.missing.push(...data.missing.map(String));
+    }
+  }
+
+  return result;
 };
 
 export interface ProductSuggestion {
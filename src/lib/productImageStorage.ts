@@ -0,0 +1,66 @@
+/**
+ * Product image storage
+ * One photo per SKU, uploaded by admins and attached to product lookups.
+ */
+import { getAuthToken } from '@/lib/auth';
+
+export interface ProductImage {
+  /** Upper-case SKU (pd_code) */
+  sku: string;
+  url: string;
+  uploadedAt: number;
+}
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const authHeaders = (json = false): HeadersInit => {
+  const token = getAuthToken();
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+/** Bulk uploads name each file after its pd_code, e.g. `10012345.jpg`. */
+export const skuFromFilename = (filename: string) => filename.replace(/\.[^.]+$/, '').trim().toUpperCase();
+
+class ProductImageStorageService {
+  async getImages(): Promise<ProductImage[]> {
+    const response = await fetch('/api/product-images', { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async uploadImage(sku: string, imageData: string): Promise<ProductImage> {
+    const response = await fetch('/api/product-images', {
+      method: 'POST',
+      headers: authHeaders(true),
+      body: JSON.stringify({ sku, imageData }),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async deleteImage(sku: string): Promise<void> {
+    const response = await fetch(`/api/product-images/${encodeURIComponent(sku)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+  }
+}
+
+export const productImageStorage = new ProductImageStorageService();
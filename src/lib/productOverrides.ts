@@ -0,0 +1,119 @@
+/**
+ * Manual overrides on added products.
+ * The first edit of a field snapshots its original (database or custom form) value
+ * into `sourceValues`, so each override can be reverted without refetching.
+ */
+
+import { EditableProductField, Product, ProductSourceValues } from '@/data/products';
+
+export const EDITABLE_PRODUCT_FIELDS: { key: EditableProductField; label: string }[] = [
+  { key: 'name', label: 'Nama Produk' },
+  { key: 'description', label: 'Deskripsi' },
+  { key: 'brand', label: 'Label Brand' },
+  { key: 'uom', label: 'UOM' },
+  { key: 'normalPrice', label: 'Harga Normal' },
+  { key: 'promoPrice', label: 'Harga Promo' },
+  { key: 'discount', label: 'Diskon (%)' },
+  { key: 'extraDiscount', label: 'Extra Diskon (%)' },
+  { key: 'memberDiscount', label: 'Diskon Member (%)' },
+  { key: 'upTo', label: 'Up to' },
+];
+
+const hasSourceValue = (sourceValues: ProductSourceValues | undefined, key: string) =>
+  sourceValues !== undefined && Object.prototype.hasOwnProperty.call(sourceValues, key);
+
+export const isFieldOverridden = (product: Product, key: EditableProductField) =>
+  hasSourceValue(product.sourceValues, key);
+
+export const getOverriddenFields = (product: Product): EditableProductField[] =>
+  EDITABLE_PRODUCT_FIELDS.map((field) => field.key).filter((key) => isFieldOverridden(product, key));
+
+const sameValue = (a: unknown, b: unknown) => (a ?? '') === (b ?? '');
+
+// Missing originals are kept as null so the override survives JSON round trips (sessions, projects)
+const toSourceValue = <T>(value: T) => value ?? null;
+const fromSourceValue = <T>(value: T) => value ?? undefined;
+
+// Per-key write that keeps loops over field names type-checked
+const assignField = <T, K extends keyof T>(target: T, key: K, value: T[K]) => {
+  target[key] = value;
+};
+
+// Custom products print from customPriceOptions, so the first row follows the top-level price fields
+const syncPrimaryPriceOption = (product: Product): Product => {
+  if (!product.customPriceOptions || product.customPriceOptions.length === 0) return product;
+  const [primary, ...rest] = product.customPriceOptions;
+  return {
+    ...product,
+    customPriceOptions: [
+      { ...primary, uom: product.uom, normalPrice: product.normalPrice, promoPrice: product.promoPrice },
+      ...rest,
+    ],
+  };
+};
+
+const withSourceValues = (product: Product, sourceValues: ProductSourceValues): Product =>
+  Object.keys(sourceValues).length > 0
+    ? { ...product, sourceValues }
+    : { ...product, sourceValues: undefined };
+
+/** Applies edits, keeping the original value of every field that differs from it. */
+export const applyProductOverrides = (product: Product, changes: ProductSourceValues): Product => {
+  const sourceValues: ProductSourceValues = { ...product.sourceValues };
+  const next: Product = { ...product, ...changes };
+
+  (Object.keys(changes) as EditableProductField[]).forEach((key) => {
+    const original = hasSourceValue(product.sourceValues, key) ? sourceValues[key] : product[key];
+    if (sameValue(original, changes[key])) {
+      delete sourceValues[key];
+    } else if (!hasSourceValue(sourceValues, key)) {
+      assignField(sourceValues, key, toSourceValue(product[key]));
+    }
+  });
+
+  return syncPrimaryPriceOption(withSourceValues(next, sourceValues));
+};
+
+export const revertProductField = (product: Product, key: EditableProductField): Product => {
+  if (!isFieldOverridden(product, key)) return product;
+  const sourceValues: ProductSourceValues = { ...product.sourceValues };
+  const next: Product = { ...product, [key]: fromSourceValue(sourceValues[key]) };
+  delete sourceValues[key];
+  return syncPrimaryPriceOption(withSourceValues(next, sourceValues));
+};
+
+export const revertProductOverrides = (product: Product): Product => {
+  if (!product.sourceValues) return product;
+  const next: Product = { ...product, sourceValues: undefined };
+  getOverriddenFields(product).forEach((key) => {
+    assignField(next, key, fromSourceValue(product.sourceValues?.[key]));
+  });
+  return syncPrimaryPriceOption(next);
+};
+
+/**
+ * Applies fresh source values (e.g. repriced from the database).
+ * Overridden fields keep the user's value and only their remembered source is updated.
+ */
+export const refreshProductSource = (product: Product, latest: Partial<Product>): Product => {
+  const sourceValues: ProductSourceValues = { ...product.sourceValues };
+  const next: Product = { ...product };
+
+  (Object.keys(latest) as (keyof Product)[]).forEach((key) => {
+    if (hasSourceValue(sourceValues, key)) {
+      (sourceValues as Record<string, unknown>)[key] = toSourceValue(latest[key]);
+    } else {
+      assignField(next, key, latest[key]);
+    }
+  });
+
+  return syncPrimaryPriceOption(withSourceValues(next, sourceValues));
+};
+
+/** Brand label printed on the POP; an overridden label wins over the database segment. */
+export const getProductBrandLabel = (product: Product) =>
+  isFieldOverridden(product, 'brand') ? product.brand : product.brandSegment || product.brand;
+
+/** Description printed on the POP; an overridden description wins over the database segment. */
+export const getProductDescription = (product: Product) =>
+  isFieldOverridden(product, 'description') ? product.description : product.descSegment || product.description;
@@ -0,0 +1,125 @@
+/**
+ * Project Storage Service
+ * Named POP projects saved on the API server per user and site
+ */
+import { getAuthToken } from '@/lib/auth';
+import { Product } from '@/data/products';
+import type { PopItemTransform } from '@/components/PopPreview';
+import type { PopSettingsState } from '@/components/PopSettings';
+import type { PageOverlays } from '@/lib/pageOverlays';
+
+interface ProjectContent {
+  products: Product[];
+  selectedTemplate: string;
+  itemTransforms: Record<string, PopItemTransform>;
+  pageOverlays?: PageOverlays;
+  settings?: PopSettingsState;
+}
+
+interface ProjectSummary {
+  id: string;
+  name: string;
+  selectedTemplate: string;
+  productCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface Project extends ProjectContent {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const jsonHeaders = () => {
+  const token = getAuthToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+class ProjectStorageService {
+  async listProjects(): Promise<ProjectSummary[]> {
+    const token = getAuthToken();
+    const response = await fetch('/api/projects', {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    const token = getAuthToken();
+    const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async createProject(name: string, content: ProjectContent): Promise<Project> {
+    const response = await fetch('/api/projects', {
+      method: 'POST',
+      headers: jsonHeaders(),
+      body: JSON.stringify({ name, ...content }),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async updateProject(id: string, content: ProjectContent): Promise<Project> {
+    const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: jsonHeaders(),
+      body: JSON.stringify(content),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async duplicateProject(id: string, name?: string): Promise<ProjectSummary> {
+    const response = await fetch(`/api/projects/${encodeURIComponent(id)}/duplicate`, {
+      method: 'POST',
+      headers: jsonHeaders(),
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const token = getAuthToken();
+    const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+  }
+}
+
+export const projectStorage = new ProjectStorageService();
+export type { Project, ProjectContent, ProjectSummary };
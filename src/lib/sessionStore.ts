@@ -0,0 +1,140 @@
+/**
+ * Editor Session Store
+ * Auto-saves the working POP session to IndexedDB and, when enabled,
+ * to the API server so it survives reloads and expired logins.
+ */
+import { Product } from '@/data/products';
+import type { PopItemTransform } from '@/components/PopPreview';
+import type { PopSettingsState } from '@/components/PopSettings';
+import { getAuthToken } from '@/lib/auth';
+import type { PageOverlays } from '@/lib/pageOverlays';
+
+interface EditorSession {
+  version: 1;
+  savedAt: number;
+  products: Product[];
+  activeIndex: number;
+  selectedTemplate: string;
+  itemTransforms: Record<string, PopItemTransform>;
+  pageOverlays?: PageOverlays;
+  settings?: PopSettingsState;
+  project?: { id: string; name: string } | null;
+}
+
+const DB_NAME = 'popmaker';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+const SYNC_KEY = 'popmaker.sessionSync';
+
+const parseError = async (response: Response): Promise<string> => {
+  try {
+    const payload = await response.json();
+    return payload?.error || `Request gagal (${response.status})`;
+  } catch {
+    return `Request gagal (${response.status})`;
+  }
+};
+
+const isEditorSession = (value: unknown): value is EditorSession => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return Array.isArray(candidate.products) && typeof candidate.savedAt === 'number';
+};
+
+class EditorSessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  isSyncEnabled(): boolean {
+    if (typeof window === 'undefined') return false;
+    return window.localStorage.getItem(SYNC_KEY) === '1';
+  }
+
+  setSyncEnabled(enabled: boolean) {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(SYNC_KEY, enabled ? '1' : '0');
+  }
+
+  async loadLocal(key: string): Promise<EditorSession | null> {
+    const stored = await this.runRequest('readonly', (store) => store.get(key));
+    return isEditorSession(stored) ? stored : null;
+  }
+
+  async saveLocal(key: string, session: EditorSession): Promise<void> {
+    await this.runRequest('readwrite', (store) => store.put(session, key));
+  }
+
+  async clearLocal(key: string): Promise<void> {
+    await this.runRequest('readwrite', (store) => store.delete(key));
+  }
+
+  async loadRemote(): Promise<EditorSession | null> {
+    const token = getAuthToken();
+    const response = await fetch('/api/session', {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    const payload = await response.json();
+    return isEditorSession(payload) ? payload : null;
+  }
+
+  async saveRemote(session: EditorSession): Promise<void> {
+    const token = getAuthToken();
+    const response = await fetch('/api/session', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(session),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+  }
+
+  async clearRemote(): Promise<void> {
+    const token = getAuthToken();
+    const response = await fetch('/api/session', {
+      method: 'DELETE',
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(await parseError(response));
+    }
+  }
+}
+
+export const editorSessionStore = new EditorSessionStore();
+export type { EditorSession };
@@ -0,0 +1,31 @@
+/**
+ * Store sites (rows of `user_sites`), used by admins to scope templates and logos.
+ */
+import { getAuthToken } from '@/lib/auth';
+
+export interface Site {
+  code: string;
+  name: string;
+}
+
+let sitesRequest: Promise<Site[]> | null = null;
+
+/** Cached for the page lifetime; sites change rarely and several dialogs need them. */
+export const fetchSites = (): Promise<Site[]> => {
+  if (!sitesRequest) {
+    const token = getAuthToken();
+    sitesRequest = fetch('/api/sites', {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    }).then(async (response) => {
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || `Request gagal (${response.status})`);
+      }
+      return response.json();
+    });
+    sitesRequest.catch(() => {
+      sitesRequest = null;
+    });
+  }
+  return sitesRequest;
+};
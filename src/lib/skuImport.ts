@@ -0,0 +1,40 @@
+/**
+ * SKU list parsing for bulk import.
+ * Accepts pasted text, CSV/TXT files and XLSX sheets; the SKU column is taken
+ * from a recognised header (SKU, PD_CODE, Kode, PLU) or the first column.
+ */
+import { readSheet } from 'read-excel-file/browser';
+
+const SKU_HEADERS = ['sku', 'pd_code', 'pdcode', 'kode', 'kode barang', 'kode produk', 'plu', 'item code'];
+
+const splitDelimitedLine = (line: string): string[] =>
+  line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+export const extractSkus = (rows: string[][]): string[] => {
+  const filledRows = rows.filter((row) => row.some((cell) => cell.trim()));
+  if (filledRows.length === 0) return [];
+
+  const header = filledRows[0].map((cell) => cell.trim().toLowerCase());
+  const headerIndex = header.findIndex((cell) => SKU_HEADERS.includes(cell));
+  const column = headerIndex >= 0 ? headerIndex : 0;
+  const dataRows = headerIndex >= 0 ? filledRows.slice(1) : filledRows;
+
+  return dataRows
+    .map((row) => (row[column] ?? '').replace(/\s+/g, ''))
+    .filter(Boolean);
+};
+
+export const parseSkuText = (text: string): string[] =>
+  extractSkus(text.split(/\r?\n/).map(splitDelimitedLine));
+
+export const readSkuFile = async (file: File): Promise<string[]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    // Keep numeric cells as written so leading zeros in SKUs survive
+    const rows = await readSheet<string>(file, { parseNumber: (value) => value });
+    return extractSkus(rows.map((row) => row.map((cell) => (cell === null ? '' : String(cell)))));
+  }
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseSkuText(await file.text());
+  }
+  throw new Error('Format file harus CSV, TXT atau XLSX');
+};
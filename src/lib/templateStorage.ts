@@ -3,6 +3,9 @@
  * Uses local server endpoints for storing custom template images
  */
 import { getAuthToken } from "@/lib/auth";
+import { BrandDisplay, Template, TemplateKind } from '@/data/templates';
+import type { PopTheme } from '@/lib/popLayouts';
+import type { TemplateZones } from '@/lib/templateZones';
 
 interface CustomTemplate {
   id: string;
@@ -11,14 +14,55 @@ interface CustomTemplate {
   imageUrl: string;
   uploadedAt: number;
   type: 'custom';
+  kind?: TemplateKind;
+  category?: string;
+  tags?: string[];
+  activeFrom?: string;
+  activeUntil?: string;
+  archived?: boolean;
+  siteCodes?: string[];
+  brandDisplay?: BrandDisplay;
+  popLayout?: string;
+  theme?: PopTheme;
+  updatedAt?: number;
+  zones?: TemplateZones;
 }
 
 interface TemplateUploadPayload {
   name: string;
   description: string;
+  kind: TemplateKind;
+  category?: string;
+  siteCodes?: string[];
   imageData: string;
 }
 
+export interface TemplateUpdatePayload {
+  name?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  kind?: TemplateKind;
+  archived?: boolean;
+  siteCodes?: string[];
+  brandDisplay?: BrandDisplay;
+  popLayout?: string;
+  /** null clears the theme */
+  theme?: PopTheme | null;
+  /** YYYY-MM-DD; an empty string clears the date */
+  activeFrom?: string;
+  activeUntil?: string;
+  /** Data URL of a replacement image; the template keeps its id */
+  imageData?: string;
+}
+
+interface TemplateListOptions {
+  /** Admin only; ignored by the server for other users */
+  includeArchived?: boolean;
+  search?: string;
+  category?: string;
+}
+
 const parseError = async (response: Response): Promise<string> => {
   try {
     const payload = await response.json();
@@ -47,9 +91,25 @@ class TemplateStorageService {
     return response.json();
   }
 
-  async getTemplates(): Promise<CustomTemplate[]> {
+  async getTemplates(options: TemplateListOptions = {}): Promise<CustomTemplate[]> {
     const token = getAuthToken();
-    const response = await fetch('/api/templates', {
+    const params = new URLSearchParams();
+    if (options.includeArchived) params.set('includeArchived', '1');
+    if (options.search?.trim()) params.set('q', options.search.trim());
+    if (options.category) params.set('category', options.category);
+    const query = params.toString();
+    const response = await fetch(`/api/templates${query ? `?${query}` : ''}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async getCategories(): Promise<string[]> {
+    const token = getAuthToken();
+    const response = await fetch('/api/template-categories', {
       headers: token ? { Authorization: `Bearer ${token}` } : undefined,
     });
     if (!response.ok) {
@@ -70,6 +130,38 @@ class TemplateStorageService {
     return response.json();
   }
 
+  async updateTemplate(id: string, payload: TemplateUpdatePayload): Promise<CustomTemplate> {
+    const token = getAuthToken();
+    const response = await fetch(`/api/templates/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
+  async updateTemplateZones(id: string, zones: TemplateZones): Promise<CustomTemplate> {
+    const token = getAuthToken();
+    const response = await fetch(`/api/templates/${encodeURIComponent(id)}/zones`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ zones }),
+    });
+    if (!response.ok) {
+      throw new Error(await parseError(response));
+    }
+    return response.json();
+  }
+
   async deleteTemplate(id: string): Promise<void> {
     const token = getAuthToken();
     const response = await fetch(`/api/templates/${encodeURIComponent(id)}`, {
@@ -82,5 +174,30 @@ class TemplateStorageService {
   }
 }
 
+/** Maps stored template metadata to the shape used by the editor. */
+export const toTemplate = (template: CustomTemplate): Template => {
+  const safeName = typeof template.name === 'string' && template.name.trim() ? template.name : 'Template';
+  return {
+    id: template.id,
+    name: safeName,
+    description: template.description || '',
+    thumbnail: safeName.charAt(0).toUpperCase(),
+    layout: 'centered',
+    type: 'custom',
+    imageUrl: template.imageUrl,
+    zones: template.zones,
+    kind: template.kind ?? 'product',
+    category: template.category || undefined,
+    tags: template.tags ?? [],
+    activeFrom: template.activeFrom || undefined,
+    activeUntil: template.activeUntil || undefined,
+    archived: template.archived === true,
+    siteCodes: template.siteCodes ?? [],
+    brandDisplay: template.brandDisplay ?? 'logo',
+    popLayout: template.popLayout || undefined,
+    theme: template.theme,
+  };
+};
+
 export const templateStorage = new TemplateStorageService();
 export type { CustomTemplate, TemplateUploadPayload };
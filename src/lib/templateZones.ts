@@ -0,0 +1,73 @@
+/**
+ * Layout zones on custom templates.
+ * Zones are stored as fractions (0-1) of the template image so they survive
+ * any paper size or cell size the image is later fitted into.
+ */
+
+export type TemplateZoneKey =
+  | 'brand'
+  | 'name'
+  | 'description'
+  | 'strikePrice'
+  | 'price'
+  | 'discount'
+  | 'barcode'
+  | 'image';
+
+export interface TemplateZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TemplateZones = Partial<Record<TemplateZoneKey, TemplateZone>>;
+
+/** A zone resolved to canvas coordinates. */
+export interface ZoneFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type ZoneFrames = Partial<Record<TemplateZoneKey, ZoneFrame>>;
+
+export const TEMPLATE_ZONE_OPTIONS: { key: TemplateZoneKey; label: string; color: string }[] = [
+  { key: 'brand', label: 'Brand', color: '#7c3aed' },
+  { key: 'name', label: 'Nama Produk', color: '#2563eb' },
+  { key: 'description', label: 'Deskripsi', color: '#0891b2' },
+  { key: 'strikePrice', label: 'Harga Coret', color: '#dc2626' },
+  { key: 'price', label: 'Harga', color: '#16a34a' },
+  { key: 'discount', label: 'Badge Diskon', color: '#ea580c' },
+  { key: 'barcode', label: 'Barcode', color: '#4b5563' },
+  { key: 'image', label: 'Foto Produk', color: '#db2777' },
+];
+
+/** Smallest zone side, as a fraction of the image, accepted by the editor. */
+export const MIN_ZONE_SIZE = 0.02;
+
+/**
+ * Resolves zones against the placed template image
+ * (position and size of the image after it was fitted into its cell).
+ */
+export const resolveZoneFrames = (
+  zones: TemplateZones | undefined,
+  image: ZoneFrame
+): ZoneFrames | undefined => {
+  if (!zones) return undefined;
+  const entries = Object.entries(zones) as [TemplateZoneKey, TemplateZone][];
+  if (entries.length === 0) return undefined;
+
+  return Object.fromEntries(
+    entries.map(([key, zone]) => [
+      key,
+      {
+        left: image.left + zone.x * image.width,
+        top: image.top + zone.y * image.height,
+        width: zone.width * image.width,
+        height: zone.height * image.height,
+      },
+    ])
+  );
+};
@@ -0,0 +1,308 @@
+/**
+ * Vector PDF export.
+ * Converts the Fabric objects of a rendered POP page into native jsPDF drawing
+ * operations (text with embedded Inter or an uploaded font, rects, lines)
+ * so prints stay sharp at any size. Images and gradient fills (badge headers)
+ * are the only raster parts.
+ */
+import jsPDF from 'jspdf';
+import {
+  Color,
+  FabricImage,
+  FabricObject,
+  FabricText,
+  Gradient,
+  Group,
+  Line,
+  Rect,
+  StaticCanvas,
+  TFiller,
+} from 'fabric';
+import { findUploadedFont, registerUploadedFonts } from '@/lib/fontStorage';
+import inter400Url from '@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf?url';
+import inter500Url from '@expo-google-fonts/inter/500Medium/Inter_500Medium.ttf?url';
+import inter600Url from '@expo-google-fonts/inter/600SemiBold/Inter_600SemiBold.ttf?url';
+import inter700Url from '@expo-google-fonts/inter/700Bold/Inter_700Bold.ttf?url';
+import inter800Url from '@expo-google-fonts/inter/800ExtraBold/Inter_800ExtraBold.ttf?url';
+import inter900Url from '@expo-google-fonts/inter/900Black/Inter_900Black.ttf?url';
+
+const INTER_FONT_URLS: Record<number, string> = {
+  400: inter400Url,
+  500: inter500Url,
+  600: inter600Url,
+  700: inter700Url,
+  800: inter800Url,
+  900: inter900Url,
+};
+const INTER_WEIGHTS = Object.keys(INTER_FONT_URLS).map(Number);
+
+// Raster resolution for images, matching the PNG export (3x = 216 DPI)
+const IMAGE_SCALE = 3;
+
+type RGBA = [number, number, number, number];
+
+/** A font file registered with jsPDF under `name` */
+interface PdfFont {
+  name: string;
+  url: string;
+  label: string;
+}
+
+// Keyed by file URL
+const fontDataCache = new Map<string, Promise<string>>();
+const registeredFonts = new WeakMap<jsPDF, Set<string>>();
+
+const closestWeight = (weights: number[], target: number) =>
+  weights.reduce((closest, weight) => (Math.abs(weight - target) < Math.abs(closest - target) ? weight : closest));
+
+// Uploaded theme fonts first; anything else prints with the closest Inter weight
+const resolvePdfFont = (text: FabricText): PdfFont => {
+  const raw = text.fontWeight === 'bold' ? 700 : Number(text.fontWeight) || 400;
+  const uploaded = findUploadedFont(text.fontFamily, raw);
+  if (uploaded) {
+    return { name: `font-${uploaded.id}`, url: uploaded.url, label: `${uploaded.family} ${uploaded.weight}` };
+  }
+  const weight = closestWeight(INTER_WEIGHTS, raw);
+  return { name: `Inter-${weight}`, url: INTER_FONT_URLS[weight], label: `Inter ${weight}` };
+};
+
+const loadFontData = (font: PdfFont): Promise<string> => {
+  let cached = fontDataCache.get(font.url);
+  if (!cached) {
+    cached = fetch(font.url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Font ${font.label} gagal dimuat (${response.status})`);
+        }
+        return response.arrayBuffer();
+      })
+      .then((buffer) => {
+        // jsPDF's virtual file system expects a binary string
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return binary;
+      });
+    cached.catch(() => fontDataCache.delete(font.url));
+    fontDataCache.set(font.url, cached);
+  }
+  return cached;
+};
+
+const ensureFonts = async (pdf: jsPDF, fonts: PdfFont[]) => {
+  const registered = registeredFonts.get(pdf) ?? new Set<string>();
+  registeredFonts.set(pdf, registered);
+
+  for (const font of fonts) {
+    if (registered.has(font.name)) continue;
+    const fileName = `${font.name}.ttf`;
+    pdf.addFileToVFS(fileName, await loadFontData(font));
+    pdf.addFont(fileName, font.name, 'normal');
+    registered.add(font.name);
+  }
+};
+
+const flattenObjects = (objects: FabricObject[]): FabricObject[] =>
+  objects.flatMap((object) => {
+    if (!object.visible) return [];
+    return object instanceof Group ? flattenObjects(object.getObjects()) : [object];
+  });
+
+const parseColor = (value: string | TFiller | null | undefined): RGBA | null => {
+  if (typeof value !== 'string') return null;
+  const color = new Color(value);
+  if (color.isUnrecognised) return null;
+  const rgba = color.getSource();
+  return rgba[3] > 0 ? rgba : null;
+};
+
+const effectiveOpacity = (object: FabricObject) => {
+  let opacity = object.opacity ?? 1;
+  for (let parent = object.group; parent; parent = parent.group) {
+    opacity *= parent.opacity ?? 1;
+  }
+  return opacity;
+};
+
+const withObjectState = (
+  pdf: jsPDF,
+  object: FabricObject,
+  fill: RGBA | null,
+  stroke: RGBA | null,
+  draw: () => void
+) => {
+  const [a, b, c, d, e, f] = object.calcTransformMatrix();
+  const opacity = effectiveOpacity(object);
+
+  pdf.saveGraphicsState();
+  pdf.setCurrentTransformationMatrix(pdf.Matrix(a, b, c, d, e, f));
+  const fillOpacity = opacity * (fill?.[3] ?? 1);
+  const strokeOpacity = opacity * (stroke?.[3] ?? 1);
+  if (fillOpacity < 1 || strokeOpacity < 1) {
+    pdf.setGState(pdf.GState({ opacity: fillOpacity, 'stroke-opacity': strokeOpacity }));
+  }
+  if (fill) pdf.setFillColor(fill[0], fill[1], fill[2]);
+  if (stroke) {
+    pdf.setDrawColor(stroke[0], stroke[1], stroke[2]);
+    pdf.setLineWidth(object.strokeWidth);
+    pdf.setLineDashPattern(object.strokeDashArray ?? [], 0);
+  }
+  draw();
+  pdf.restoreGraphicsState();
+};
+
+const pathStyle = (fill: RGBA | null, stroke: RGBA | null) =>
+  fill && stroke ? 'FD' : fill ? 'F' : 'S';
+
+const strokeColorOf = (object: FabricObject) =>
+  object.strokeWidth > 0 ? parseColor(object.stroke) : null;
+
+// Shadows are not reproduced: soft shadows have no vector equivalent in PDF
+const drawRect = (pdf: jsPDF, rect: Rect) => {
+  const fill = parseColor(rect.fill);
+  const stroke = strokeColorOf(rect);
+  if (!fill && !stroke) return;
+
+  withObjectState(pdf, rect, fill, stroke, () => {
+    const { width, height } = rect;
+    const rx = Math.min(rect.rx || 0, width / 2);
+    const ry = Math.min(rect.ry || 0, height / 2);
+    if (rx > 0 || ry > 0) {
+      pdf.roundedRect(-width / 2, -height / 2, width, height, rx, ry, pathStyle(fill, stroke));
+    } else {
+      pdf.rect(-width / 2, -height / 2, width, height, pathStyle(fill, stroke));
+    }
+  });
+};
+
+const drawLine = (pdf: jsPDF, line: Line) => {
+  const stroke = strokeColorOf(line);
+  if (!stroke) return;
+
+  withObjectState(pdf, line, null, stroke, () => {
+    const { x1, y1, x2, y2 } = line.calcLinePoints();
+    pdf.line(x1, y1, x2, y2, 'S');
+  });
+};
+
+const drawText = (pdf: jsPDF, text: FabricText) => {
+  const fill = parseColor(text.fill);
+  const stroke = strokeColorOf(text);
+  if (!fill && !stroke) return;
+
+  withObjectState(pdf, text, fill, stroke, () => {
+    if (fill) pdf.setTextColor(fill[0], fill[1], fill[2]);
+    pdf.setFont(resolvePdfFont(text).name, 'normal');
+    pdf.setFontSize(text.fontSize);
+
+    // Same line metrics Fabric uses in _renderTextCommon so baselines line up
+    const left = -text.width / 2;
+    let lineTop = -text.height / 2;
+    text.textLines.forEach((lineText, index) => {
+      const heightOfLine = text.getHeightOfLine(index);
+      const baseline = lineTop + (heightOfLine / text.lineHeight) * (1 - text._fontSizeFraction);
+      const lineLeft = left + text._getLineLeftOffset(index);
+      const lineWidth = text.getLineWidth(index);
+      lineTop += heightOfLine;
+      if (!lineText.trim()) return;
+
+      // Anchor on the alignment edge so kerning differences do not shift centred text
+      const align = text.textAlign === 'center' || text.textAlign === 'right' ? text.textAlign : 'left';
+      const x = align === 'center' ? lineLeft + lineWidth / 2 : align === 'right' ? lineLeft + lineWidth : lineLeft;
+      pdf.text(lineText, x, baseline, {
+        align,
+        baseline: 'alphabetic',
+        renderingMode: fill && stroke ? 'fillThenStroke' : fill ? 'fill' : 'stroke',
+      });
+    });
+  });
+};
+
+const clipBoundsOf = (object: FabricObject) => {
+  const clip = object.clipPath;
+  if (clip?.absolutePositioned) {
+    return clip.getBoundingRect();
+  }
+  return object.getBoundingRect();
+};
+
+/**
+ * Rasterises a single object (with its clip) and places it on the page.
+ * Used for images, gradient fills and as the fallback for object types without a vector path.
+ */
+const drawRaster = (pdf: jsPDF, object: FabricObject) => {
+  const { left, top, width, height } = clipBoundsOf(object);
+  if (width <= 0 || height <= 0) return;
+
+  const element = document.createElement('canvas');
+  element.width = Math.ceil(width * IMAGE_SCALE);
+  element.height = Math.ceil(height * IMAGE_SCALE);
+  const ctx = element.getContext('2d');
+  if (!ctx) return;
+
+  // Top-level images are template backgrounds: flatten onto white and use JPEG
+  const isBackground = object instanceof FabricImage && !object.group;
+  if (isBackground) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, element.width, element.height);
+  }
+  ctx.setTransform(IMAGE_SCALE, 0, 0, IMAGE_SCALE, -left * IMAGE_SCALE, -top * IMAGE_SCALE);
+  if (object.group) {
+    const [a, b, c, d, e, f] = object.group.calcTransformMatrix();
+    ctx.transform(a, b, c, d, e, f);
+  }
+
+  const objectCaching = object.objectCaching;
+  object.objectCaching = false;
+  object.render(ctx);
+  object.objectCaching = objectCaching;
+
+  pdf.addImage(
+    isBackground ? element.toDataURL('image/jpeg', 0.92) : element.toDataURL('image/png'),
+    isBackground ? 'JPEG' : 'PNG',
+    left,
+    top,
+    width,
+    height
+  );
+};
+
+// Badge headers blend the theme's gradient stops; rasterising keeps every stop the preview shows
+const hasGradient = (object: FabricObject) =>
+  object.fill instanceof Gradient || object.stroke instanceof Gradient;
+
+const drawObject = (pdf: jsPDF, object: FabricObject) => {
+  if (hasGradient(object)) {
+    drawRaster(pdf, object);
+  } else if (object instanceof FabricText) {
+    drawText(pdf, object);
+  } else if (object instanceof Rect) {
+    drawRect(pdf, object);
+  } else if (object instanceof Line) {
+    drawLine(pdf, object);
+  } else {
+    drawRaster(pdf, object);
+  }
+};
+
+/**
+ * Draws every object on the canvas onto the current jsPDF page.
+ * The canvas must be rendered at zoom 1 with page units matching the PDF (pt).
+ */
+export const drawCanvasToPdf = async (pdf: jsPDF, canvas: StaticCanvas) => {
+  const objects = flattenObjects(canvas.getObjects());
+  await registerUploadedFonts();
+  const fonts = new Map(
+    objects
+      .filter((object): object is FabricText => object instanceof FabricText)
+      .map((text) => resolvePdfFont(text))
+      .map((font) => [font.name, font])
+  );
+  await ensureFonts(pdf, [...fonts.values()]);
+
+  pdf.advancedAPI(() => {
+    objects.forEach((object) => drawObject(pdf, object));
+  });
+};
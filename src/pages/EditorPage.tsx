@@ -1,21 +1,82 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { templates, Template } from '@/data/templates';
-import { templateStorage } from '@/lib/templateStorage';
+import { templates, Template, getTemplateKind } from '@/data/templates';
+import { templateStorage, toTemplate } from '@/lib/templateStorage';
 import { Product, searchProduct } from '@/data/products';
 import { fetchProductBySku } from '@/lib/productApi';
-import { brands as defaultBrands, Brand } from '@/data/brands';
+import { brands as defaultBrands, Brand, normalizeBrandSegment } from '@/data/brands';
 import { TemplatePanel } from '@/components/TemplatePanel';
 import { SKUForm } from '@/components/SKUForm';
 import { ActionBar } from '@/components/ActionBar';
-import { PopPreview, PopPreviewHandle } from '@/components/PopPreview';
+import { PopPreview, PopPreviewHandle, PopItemTransform } from '@/components/PopPreview';
 import { BrandUpload } from '@/components/BrandUpload';
+import { BrandManager } from '@/components/BrandManager';
+import { FontManager } from '@/components/FontManager';
+import { PopLayoutManager } from '@/components/PopLayoutManager';
+import { ProductImageManager } from '@/components/ProductImageManager';
+import { PopSettings, PopSettingsState } from '@/components/PopSettings';
+import { ProjectPanel, ActiveProject } from '@/components/ProjectPanel';
 import { toast } from 'sonner';
 import { Globe, ChevronDown, User } from 'lucide-react';
 import jsPDF from 'jspdf';
 import { clearAuthToken, getAuthToken, getAuthUser, setAuthUser } from '@/lib/auth';
+import { editorSessionStore, EditorSession } from '@/lib/sessionStore';
+import { drawCanvasToPdf } from '@/lib/vectorPdf';
+import { DEFAULT_PAPER_SETTINGS, getPageDimensions } from '@/lib/paper';
+import type { Project, ProjectContent } from '@/lib/projectStorage';
+import { brandStorage } from '@/lib/brandStorage';
+import { getQueueId, migrateQueue, withQueueId } from '@/lib/printQueue';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { PageOverlays, removeEntryOverlays } from '@/lib/pageOverlays';
 
 const BRAND_STORAGE_KEY = 'popmaker.brands';
+const SESSION_SAVE_DELAY = 800;
+
+const DEFAULT_POP_SETTINGS: PopSettingsState = {
+  ...DEFAULT_PAPER_SETTINGS,
+  showStrikePrice: true,
+  showBarcode: true,
+  layout: '1',
+};
+
+const getSessionKey = () => `user-${getAuthUser()?.id ?? 'anonymous'}`;
+
+const changedFields = <T extends object>(prev: T, next: T) =>
+  [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+    .filter((key) => prev[key as keyof T] !== next[key as keyof T])
+    .sort()
+    .join(',');
+
+// Merge key for an edit of one queue entry; other changes (reprice, reorder) stay separate steps
+const getProductEditKey = (prev: Product[], next: Product[]) => {
+  if (prev.length !== next.length) return undefined;
+  const changed = next.map((product, index) => index).filter((index) => next[index] !== prev[index]);
+  if (changed.length !== 1) return undefined;
+  const [index] = changed;
+  return `edit:${getQueueId(next[index])}:${changedFields(prev[index], next[index])}`;
+};
+
+// Merge key for a change to one overlay; adding, removing or moving one to another POP is always its own step
+const getOverlayEditKey = (prev: PageOverlays, next: PageOverlays) => {
+  const keys = [...new Set([...Object.keys(prev), ...Object.keys(next)])].filter((key) => prev[key] !== next[key]);
+  if (keys.length !== 1) return undefined;
+  const [key] = keys;
+  const before = prev[key] ?? [];
+  const after = next[key] ?? [];
+  if (before.length !== after.length) return undefined;
+  const changed = after.filter((overlay, index) => overlay !== before[index]);
+  if (changed.length !== 1) return undefined;
+  const previous = before.find((overlay) => overlay.id === changed[0].id);
+  if (!previous) return undefined;
+  return `overlay:${key}:${changed[0].id}:${changedFields(previous, changed[0])}`;
+};
+
+// Theme and sticker sessions never have products, so any saved choice counts as work worth restoring
+const hasSessionContent = (session: EditorSession) =>
+  session.products.length > 0 ||
+  Object.keys(session.pageOverlays ?? {}).length > 0 ||
+  Boolean(session.selectedTemplate) ||
+  Boolean(session.project);
 
 const isValidBrand = (value: unknown): value is Brand => {
   if (!value || typeof value !== 'object') return false;
@@ -37,15 +98,43 @@ const readStoredBrands = (): Brand[] => {
   }
 };
 
-const writeStoredBrands = (brands: Brand[]) => {
+const clearStoredBrands = () => {
   if (typeof window === 'undefined') return;
-  window.localStorage.setItem(BRAND_STORAGE_KEY, JSON.stringify(brands));
+  window.localStorage.removeItem(BRAND_STORAGE_KEY);
 };
 
-const isFullThemeTemplate = (template?: Template | null): boolean => {
-  if (!template) return false;
-  const marker = `${template.name || ''} ${template.description || ''}`.toLowerCase();
-  return marker.includes('full') || marker.includes('tema full');
+// Brands used to live in the admin's localStorage; copy the ones the registry does not know yet
+const migrateStoredBrands = async (stored: Brand[], registered: Brand[]): Promise<Brand[]> => {
+  const knownSegments = new Set(registered.map((brand) => brand.segment));
+  const migrated: Brand[] = [];
+  for (const brand of stored) {
+    const segment = normalizeBrandSegment(brand.name);
+    if (knownSegments.has(segment)) continue;
+    migrated.push(await brandStorage.createBrand({
+      name: brand.name,
+      segment,
+      logoUrl: brand.logoData?.startsWith('/') ? brand.logoData : undefined,
+      logoText: brand.logoText,
+      logoBg: brand.logoBg,
+      logoTextColor: brand.logoTextColor,
+    }));
+    knownSegments.add(segment);
+  }
+  return migrated;
+};
+
+// Document state covered by undo/redo; paper settings, projects and sessions stay out of it
+interface EditorSnapshot {
+  products: Product[];
+  itemTransforms: Record<string, PopItemTransform>;
+  pageOverlays: PageOverlays;
+  selectedTemplate: string;
+  selectedTemplateData: Template;
+}
+
+const isTextInput = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
 };
 
 const EditorPage = () => {
@@ -70,14 +159,75 @@ const EditorPage = () => {
   const [previewScale, setPreviewScale] = useState(1);
   const previewRef = useRef<HTMLDivElement>(null);
   const popPreviewRef = useRef<PopPreviewHandle>(null);
-  const popSettings = {
-    showStrikePrice: true,
-    showDiscount: true,
-    showBarcode: true,
-    layout: '1' as const,
-  };
-  const isProductFormDisabled = isFullThemeTemplate(selectedTemplateData);
-  const canRunActions = products.length > 0 || isProductFormDisabled;
+  const [popSettings, setPopSettings] = useState<PopSettingsState>(DEFAULT_POP_SETTINGS);
+  const [itemTransforms, setItemTransforms] = useState<Record<string, PopItemTransform>>({});
+  const [pageOverlays, setPageOverlays] = useState<PageOverlays>({});
+  const [sessionReady, setSessionReady] = useState(false);
+  const [sessionSavedAt, setSessionSavedAt] = useState<number | null>(null);
+  const [sessionSync, setSessionSync] = useState(() => editorSessionStore.isSyncEnabled());
+  const [currentProject, setCurrentProject] = useState<ActiveProject | null>(null);
+  const templateKind = getTemplateKind(selectedTemplateData);
+  const isProductFormDisabled = templateKind !== 'product';
+  const {
+    canUndo,
+    canRedo,
+    record: recordHistory,
+    undo: undoHistory,
+    redo: redoHistory,
+    clear: clearHistory,
+  } = useUndoHistory<EditorSnapshot>();
+  const snapshotRef = useRef<EditorSnapshot>({
+    products,
+    itemTransforms,
+    pageOverlays,
+    selectedTemplate,
+    selectedTemplateData,
+  });
+  snapshotRef.current = { products, itemTransforms, pageOverlays, selectedTemplate, selectedTemplateData };
+
+  /** Records the state from before the change that is about to happen. */
+  const remember = useCallback((mergeKey?: string) => {
+    recordHistory(snapshotRef.current, mergeKey);
+  }, [recordHistory]);
+
+  const restoreSnapshot = useCallback((snapshot: EditorSnapshot) => {
+    setProducts(snapshot.products);
+    setItemTransforms(snapshot.itemTransforms);
+    setPageOverlays(snapshot.pageOverlays);
+    setSelectedTemplate(snapshot.selectedTemplate);
+    setSelectedTemplateData(snapshot.selectedTemplateData);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const snapshot = undoHistory(snapshotRef.current);
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [restoreSnapshot, undoHistory]);
+
+  const handleRedo = useCallback(() => {
+    const snapshot = redoHistory(snapshotRef.current);
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [redoHistory, restoreSnapshot]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      const isUndo = key === 'z' && !event.shiftKey;
+      const isRedo = (key === 'z' && event.shiftKey) || key === 'y';
+      if (!isUndo && !isRedo) return;
+      // Text fields keep their native undo
+      if (isTextInput(event.target)) return;
+      event.preventDefault();
+      if (isUndo) {
+        handleUndo();
+      } else {
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRedo, handleUndo]);
 
   useEffect(() => {
     if (!getAuthToken()) {
@@ -85,20 +235,124 @@ const EditorPage = () => {
     }
   }, [navigate]);
 
-  // Load default product on mount
+  // Load the shared brand registry (already filtered to this user's site)
   useEffect(() => {
-    const storedBrands = readStoredBrands();
-    if (storedBrands.length > 0) {
-      const defaultIds = new Set(defaultBrands.map((brand) => brand.id));
-      const customBrands = storedBrands.filter((brand) => !defaultIds.has(brand.id));
-      setBrandList([...defaultBrands, ...customBrands]);
-    }
+    let isActive = true;
+    const loadBrands = async () => {
+      try {
+        let registered = await brandStorage.getBrands();
+        const defaultIds = new Set(defaultBrands.map((brand) => brand.id));
+        const storedBrands = readStoredBrands().filter((brand) => !defaultIds.has(brand.id));
+        if (storedBrands.length > 0 && getAuthUser()?.username === 'admin') {
+          registered = [...registered, ...(await migrateStoredBrands(storedBrands, registered))];
+          clearStoredBrands();
+        }
+        if (isActive) {
+          setBrandList([...defaultBrands, ...registered]);
+        }
+      } catch (error) {
+        console.warn('Failed to load brands:', error);
+      }
+    };
+    loadBrands();
+    return () => {
+      isActive = false;
+    };
   }, []);
 
+  // Restore the last session, preferring whichever copy was saved most recently
   useEffect(() => {
-    setProducts([]);
+    let isActive = true;
+    const restoreSession = async () => {
+      const key = getSessionKey();
+      const [local, remote] = await Promise.all([
+        editorSessionStore.loadLocal(key).catch((error) => {
+          console.warn('Failed to read local session:', error);
+          return null;
+        }),
+        editorSessionStore.isSyncEnabled()
+          ? editorSessionStore.loadRemote().catch((error) => {
+              console.warn('Failed to read server session:', error);
+              return null;
+            })
+          : Promise.resolve(null),
+      ]);
+      if (!isActive) return;
+
+      const session = [local, remote]
+        .filter((item): item is EditorSession => Boolean(item))
+        .sort((a, b) => b.savedAt - a.savedAt)[0];
+
+      if (session && hasSessionContent(session)) {
+        const queue = migrateQueue(session.products, session.itemTransforms || {});
+        setProducts(queue.products);
+        setActiveIndex(session.activeIndex || 0);
+        setItemTransforms(queue.itemTransforms);
+        setPageOverlays(session.pageOverlays || {});
+        if (session.selectedTemplate) {
+          setSelectedTemplate(session.selectedTemplate);
+        }
+        if (session.settings) {
+          setPopSettings({ ...DEFAULT_POP_SETTINGS, ...session.settings });
+        }
+        setCurrentProject(session.project ?? null);
+        setSessionSavedAt(session.savedAt);
+        toast.success(
+          session.products.length > 0
+            ? `Sesi sebelumnya dipulihkan (${session.products.length} produk)`
+            : 'Sesi sebelumnya dipulihkan'
+        );
+      }
+      setSessionReady(true);
+    };
+
+    restoreSession();
+    return () => {
+      isActive = false;
+    };
   }, []);
 
+  // Auto-save the working session once restore has finished
+  useEffect(() => {
+    if (!sessionReady) return;
+
+    const timer = window.setTimeout(() => {
+      const session: EditorSession = {
+        version: 1,
+        savedAt: Date.now(),
+        products,
+        activeIndex,
+        selectedTemplate,
+        itemTransforms,
+        pageOverlays,
+        settings: popSettings,
+        project: currentProject,
+      };
+      const key = getSessionKey();
+      editorSessionStore
+        .saveLocal(key, session)
+        .then(() => setSessionSavedAt(session.savedAt))
+        .catch((error) => console.warn('Failed to save local session:', error));
+      if (sessionSync) {
+        editorSessionStore
+          .saveRemote(session)
+          .catch((error) => console.warn('Failed to save server session:', error));
+      }
+    }, SESSION_SAVE_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [
+    sessionReady,
+    sessionSync,
+    products,
+    activeIndex,
+    selectedTemplate,
+    itemTransforms,
+    pageOverlays,
+    popSettings,
+    currentProject,
+  ]);
+
   useEffect(() => {
     if (activeIndex > products.length - 1) {
       setActiveIndex(Math.max(0, products.length - 1));
@@ -112,19 +366,9 @@ const EditorPage = () => {
       try {
         const stored = await templateStorage.getTemplates();
         if (!isActive || stored.length === 0) return;
-        const first = stored[0];
-        const safeName =
-          typeof first.name === 'string' && first.name.trim() ? first.name : 'Template';
+        const first = toTemplate(stored[0]);
         setSelectedTemplate(first.id);
-        setSelectedTemplateData({
-          id: first.id,
-          name: safeName,
-          description: first.description || '',
-          thumbnail: safeName.charAt(0).toUpperCase(),
-          layout: 'centered',
-          type: 'custom',
-          imageUrl: first.imageUrl,
-        });
+        setSelectedTemplateData(first);
       } catch (error) {
         console.warn('Failed to load default template:', error);
       }
@@ -183,18 +427,7 @@ const EditorPage = () => {
       try {
         const customTemplate = await templateStorage.getTemplate(selectedTemplate);
         if (customTemplate) {
-          const safeName = typeof customTemplate.name === 'string' && customTemplate.name.trim()
-            ? customTemplate.name
-            : 'Template';
-          setSelectedTemplateData({
-            id: customTemplate.id,
-            name: safeName,
-            description: customTemplate.description,
-            thumbnail: safeName.charAt(0).toUpperCase(),
-            layout: 'centered',
-            type: 'custom',
-            imageUrl: customTemplate.imageUrl,
-          });
+          setSelectedTemplateData(toTemplate(customTemplate));
         }
       } catch (error) {
         console.error('Failed to load template data:', error);
@@ -205,30 +438,147 @@ const EditorPage = () => {
   }, [selectedTemplate, selectedTemplateData]);
 
   const handleSelectTemplate = useCallback((template: Template) => {
+    if (template.id !== snapshotRef.current.selectedTemplate) {
+      remember();
+    }
     setSelectedTemplate(template.id);
     setSelectedTemplateData(template);
-  }, []);
+  }, [remember]);
 
   const handleAddProduct = useCallback((product: Product) => {
-    setProducts((prev) => [...prev, product]);
-  }, []);
+    remember();
+    setProducts((prev) => [...prev, withQueueId(product)]);
+  }, [remember]);
+
+  const handleAddProducts = useCallback((items: Product[]) => {
+    remember();
+    setProducts((prev) => [...prev, ...items.map(withQueueId)]);
+  }, [remember]);
+
+  // Field edits arrive per keystroke; the merge key folds a burst of typing in one field into one undo step
+  const handleUpdateProducts = useCallback((next: Product[]) => {
+    remember(getProductEditKey(snapshotRef.current.products, next));
+    setProducts(next);
+  }, [remember]);
 
   const handleAddBrand = useCallback((brand: Brand) => {
-    setBrandList((prev) => {
-      const next = [...prev, brand];
-      const defaultIds = new Set(defaultBrands.map((item) => item.id));
-      const customBrands = next.filter((item) => !defaultIds.has(item.id));
-      writeStoredBrands(customBrands);
-      return next;
-    });
+    setBrandList((prev) => [...prev, brand]);
+  }, []);
+
+  const handleRegisteredBrandsChange = useCallback((registered: Brand[]) => {
+    setBrandList([...defaultBrands, ...registered]);
   }, []);
 
-  const handleRemoveProduct = useCallback((sku: string) => {
-    setProducts((prev) => prev.filter((p) => p.sku !== sku));
+  // Store data rather than an edit to the document, so it stays out of undo history
+  const handleProductImageChange = useCallback((sku: string, url?: string) => {
+    setProducts((prev) => prev.map((product) =>
+      !product.isCustom && product.sku.trim().toUpperCase() === sku
+        ? { ...product, productImageUrl: url }
+        : product
+    ));
   }, []);
 
-  const handleSelectProduct = useCallback((sku: string) => {
-    const index = products.findIndex((product) => product.sku === sku);
+  const handleItemTransformChange = useCallback((queueId: string, transform: PopItemTransform) => {
+    remember();
+    // Group moves and element offsets arrive separately, so keep whatever the other one stored
+    setItemTransforms((prev) => ({ ...prev, [queueId]: { ...prev[queueId], ...transform } }));
+  }, [remember]);
+
+  const handlePageOverlaysChange = useCallback((overlays: PageOverlays) => {
+    remember(getOverlayEditKey(snapshotRef.current.pageOverlays, overlays));
+    setPageOverlays(overlays);
+  }, [remember]);
+
+  const handleSessionSyncChange = useCallback((enabled: boolean) => {
+    editorSessionStore.setSyncEnabled(enabled);
+    setSessionSync(enabled);
+  }, []);
+
+  const handleNewSession = useCallback(() => {
+    if (!window.confirm('Mulai sesi baru? Semua produk dan pengaturan saat ini akan dihapus.')) {
+      return;
+    }
+
+    const run = async () => {
+      await editorSessionStore.clearLocal(getSessionKey());
+      if (editorSessionStore.isSyncEnabled()) {
+        await editorSessionStore.clearRemote();
+      }
+    };
+
+    setProducts([]);
+    setActiveIndex(0);
+    setItemTransforms({});
+    setPageOverlays({});
+    setPopSettings(DEFAULT_POP_SETTINGS);
+    setCurrentProject(null);
+    setSessionSavedAt(null);
+    clearHistory();
+    run()
+      .then(() => toast.success('Sesi baru dimulai'))
+      .catch((error) => {
+        console.error('Failed to clear session:', error);
+        toast.error('Gagal menghapus sesi tersimpan');
+      });
+  }, [clearHistory]);
+
+  const getProjectContent = useCallback((): ProjectContent => ({
+    products,
+    selectedTemplate,
+    itemTransforms,
+    pageOverlays,
+    settings: popSettings,
+  }), [products, selectedTemplate, itemTransforms, pageOverlays, popSettings]);
+
+  const handleOpenProject = useCallback((project: Project) => {
+    const queue = migrateQueue(project.products, project.itemTransforms || {});
+    setProducts(queue.products);
+    setActiveIndex(0);
+    setItemTransforms(queue.itemTransforms);
+    setPageOverlays(project.pageOverlays || {});
+    if (project.selectedTemplate) {
+      setSelectedTemplate(project.selectedTemplate);
+    }
+    if (project.settings) {
+      setPopSettings({ ...DEFAULT_POP_SETTINGS, ...project.settings });
+    }
+    setCurrentProject({ id: project.id, name: project.name });
+    clearHistory();
+  }, [clearHistory]);
+
+  const handleRemoveProduct = useCallback((queueId: string) => {
+    remember();
+    setProducts((prev) => prev.filter((p) => getQueueId(p) !== queueId));
+    setItemTransforms((prev) => {
+      if (!prev[queueId]) return prev;
+      const next = { ...prev };
+      delete next[queueId];
+      return next;
+    });
+    setPageOverlays((prev) => removeEntryOverlays(prev, queueId));
+  }, [remember]);
+
+  const handleMoveProduct = useCallback((fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
+    remember();
+    setProducts((prev) => {
+      if (fromIndex < 0 || fromIndex >= prev.length || toIndex < 0 || toIndex >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+    // Keep the same entry selected after it or its neighbours shift
+    setActiveIndex((current) => {
+      if (current === fromIndex) return toIndex;
+      if (fromIndex < current && toIndex >= current) return current - 1;
+      if (fromIndex > current && toIndex <= current) return current + 1;
+      return current;
+    });
+  }, [remember]);
+
+  const handleSelectProduct = useCallback((queueId: string) => {
+    const index = products.findIndex((product) => getQueueId(product) === queueId);
     if (index >= 0) {
       setActiveIndex(index);
     }
@@ -239,23 +589,47 @@ const EditorPage = () => {
   }, []);
 
   const handleDownloadPDF = useCallback(() => {
-    const run = async () => {
-      const images = await popPreviewRef.current?.getPageImages();
-      if (!images || images.length === 0) {
-        toast.error('Preview tidak tersedia');
-        return;
-      }
+    const page = getPageDimensions(popSettings);
+    const createPdf = () => new jsPDF({
+      orientation: page.width > page.height ? 'landscape' : 'portrait',
+      unit: 'pt',
+      format: [page.width, page.height],
+    });
 
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'pt',
-        format: 'a4',
+    const buildVectorPdf = async () => {
+      const pdf = createPdf();
+      const pageCount = await popPreviewRef.current?.renderPages(async (canvas, index) => {
+        if (index > 0) pdf.addPage();
+        await drawCanvasToPdf(pdf, canvas);
       });
+      return pageCount ? pdf : null;
+    };
 
+    // Raster fallback: one high-resolution PNG per page
+    const buildRasterPdf = async () => {
+      const images = await popPreviewRef.current?.getPageImages();
+      if (!images || images.length === 0) return null;
+
+      const pdf = createPdf();
       images.forEach((img, index) => {
         if (index > 0) pdf.addPage();
-        pdf.addImage(img, 'PNG', 0, 0, 595, 842);
+        pdf.addImage(img, 'PNG', 0, 0, page.width, page.height);
       });
+      return pdf;
+    };
+
+    const run = async () => {
+      let pdf: jsPDF | null;
+      try {
+        pdf = await buildVectorPdf();
+      } catch (error) {
+        console.warn('Vector PDF export failed, falling back to raster:', error);
+        pdf = await buildRasterPdf();
+      }
+      if (!pdf) {
+        toast.error('Preview tidak tersedia');
+        return;
+      }
 
       pdf.save('pop-price-tag.pdf');
       toast.success('PDF berhasil diunduh!');
@@ -265,9 +639,10 @@ const EditorPage = () => {
       console.error('Failed to build PDF:', error);
       toast.error('Gagal membuat PDF');
     });
-  }, []);
+  }, [popSettings]);
 
   const handlePrint = useCallback(() => {
+    const { widthMm, heightMm } = getPageDimensions(popSettings);
     const run = async () => {
       const images = await popPreviewRef.current?.getPageImages();
       if (!images || images.length === 0) {
@@ -299,10 +674,10 @@ const EditorPage = () => {
           <head>
             <title>Print POP</title>
             <style>
-              @page { size: A4; margin: 0; }
+              @page { size: ${widthMm}mm ${heightMm}mm; margin: 0; }
               body { margin: 0; }
-              .page { width: 210mm; height: 297mm; page-break-after: always; display: flex; justify-content: center; align-items: center; }
-              img { width: 210mm; height: 297mm; }
+              .page { width: ${widthMm}mm; height: ${heightMm}mm; page-break-after: always; display: flex; justify-content: center; align-items: center; }
+              img { width: ${widthMm}mm; height: ${heightMm}mm; }
             </style>
           </head>
           <body>
@@ -323,7 +698,7 @@ const EditorPage = () => {
       console.error('Failed to print pages:', error);
       toast.error('Gagal print');
     });
-  }, []);
+  }, [popSettings]);
 
   const handleLogout = useCallback(() => {
     clearAuthToken();
@@ -345,9 +720,18 @@ const EditorPage = () => {
           </button>
 
           {isAdmin ? (
-            <BrandUpload
-              onAdd={handleAddBrand}
-            />
+            <>
+              <BrandUpload
+                onAdd={handleAddBrand}
+              />
+              <BrandManager
+                brands={brandList.filter((brand) => brand.segment)}
+                onBrandsChange={handleRegisteredBrandsChange}
+              />
+              <ProductImageManager onImageChange={handleProductImageChange} />
+              <FontManager />
+              <PopLayoutManager />
+            </>
           ) : null}
 
           <button className="flex items-center gap-2 text-sm text-white/90 hover:text-white transition-colors">
@@ -372,6 +756,16 @@ const EditorPage = () => {
         {/* Left Panel - Controls */}
         <aside className="w-[35%] min-w-[320px] max-w-[480px] border-r border-border bg-card overflow-y-auto scrollbar-thin">
           <div className="p-5 space-y-6">
+            <ProjectPanel
+              currentProject={currentProject}
+              getContent={getProjectContent}
+              onProjectChange={setCurrentProject}
+              onOpenProject={handleOpenProject}
+              hasProducts={products.length > 0}
+            />
+
+            <div className="h-px bg-border" />
+
             <TemplatePanel
               templates={templates}
               selectedTemplate={selectedTemplate}
@@ -384,20 +778,39 @@ const EditorPage = () => {
             <SKUForm
               products={products}
               onAddProduct={handleAddProduct}
+              onAddProducts={handleAddProducts}
+              onUpdateProducts={handleUpdateProducts}
               onRemoveProduct={handleRemoveProduct}
+              onMoveProduct={handleMoveProduct}
               onSelectProduct={handleSelectProduct}
-              activeSku={products[activeIndex]?.sku}
+              activeQueueId={products[activeIndex] ? getQueueId(products[activeIndex]) : undefined}
               brands={brandList}
               disabled={isProductFormDisabled}
             />
 
             <div className="h-px bg-border" />
 
+            <PopSettings
+              settings={popSettings}
+              onSettingsChange={setPopSettings}
+            />
+
+            <div className="h-px bg-border" />
+
             <ActionBar
               onGeneratePreview={handleGeneratePreview}
               onDownloadPDF={handleDownloadPDF}
               onPrint={handlePrint}
-              hasProducts={canRunActions}
+              onNewSession={handleNewSession}
+              sessionSync={sessionSync}
+              onSessionSyncChange={handleSessionSyncChange}
+              sessionSavedAt={sessionSavedAt}
+              hasProducts={products.length > 0}
+              templateKind={templateKind}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={canUndo}
+              canRedo={canRedo}
             />
           </div>
         </aside>
@@ -412,6 +825,10 @@ const EditorPage = () => {
             onScaleChange={setPreviewScale}
             activeIndex={activeIndex}
             onActiveIndexChange={setActiveIndex}
+            itemTransforms={itemTransforms}
+            onItemTransformChange={handleItemTransformChange}
+            pageOverlays={pageOverlays}
+            onPageOverlaysChange={handlePageOverlaysChange}
             ref={popPreviewRef}
           />
         </main>